@@ -0,0 +1,70 @@
+import { buildHydratedDag } from "./build_hydrated_dag";
+import {
+  type ComputedTarget,
+  computeTransitiveTargets,
+  type TargetRef,
+} from "./compute_transitive_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+/**
+ * Computes each PR's affected targets against a DAG hydrated from the baseline and every PR.
+ * A PR's own removedTargetIds / removedEdges are skipped when traversing for that PR, so its
+ * affected set reflects what it leaves behind; other PRs still see the baseline edges.
+ * Returns a map in prTargets iteration order.
+ */
+export function computeAffectedTargetsByPr({
+  baselineTargets,
+  prTargets,
+}: {
+  baselineTargets: CachedBuildTargets;
+  prTargets: Map<string, CachedBuildTargets>;
+}) {
+  const hydratedDag = buildHydratedDag({
+    baselineTargets,
+    additionalTargets: [...prTargets.values()],
+  });
+
+  const affectedTargetsByPr = new Map<string, Set<ComputedTarget>>();
+  for (const [prId, targets] of prTargets) {
+    affectedTargetsByPr.set(
+      prId,
+      computeTransitiveTargets({
+        directPackageNames: targets.targetIds,
+        hydratedDag,
+        ...(targets.mode === "filtered" && {
+          removedTargetIds: targets.removedTargetIds,
+          removedEdges: targets.removedEdges,
+        }),
+      })
+    );
+  }
+
+  return affectedTargetsByPr;
+}
+
+/**
+ * Indexes target → PRs so overlapping PRs are found without intersecting every pair.
+ * PR IDs for each target are in affectedTargetsByPr iteration order.
+ * Targets are reduced to their id and name, since depth differs from PR to PR.
+ */
+export function indexPrsByTargetId(
+  affectedTargetsByPr: Map<string, Set<TargetRef>>
+) {
+  const targetIdToPrIds = new Map<string, string[]>();
+  const targetIdToTarget = new Map<string, TargetRef>();
+
+  for (const [prId, affectedTargets] of affectedTargetsByPr) {
+    for (const target of affectedTargets) {
+      targetIdToTarget.set(target.id, { id: target.id, name: target.name });
+      if (!targetIdToPrIds.has(target.id)) {
+        targetIdToPrIds.set(target.id, []);
+      }
+      const prIds = targetIdToPrIds.get(target.id)!;
+      if (prIds[prIds.length - 1] !== prId) {
+        prIds.push(prId);
+      }
+    }
+  }
+
+  return { targetIdToPrIds, targetIdToTarget };
+}
@@ -1,11 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { buildHydratedDag } from "./build_hydrated_dag";
+import {
+  BASELINE_SOURCE,
+  buildHydratedDag,
+  listTargetRenames,
+} from "./build_hydrated_dag";
 import { type CachedBuildTargets } from "./schemas";
 
 const createBaselineTargets = (
   targets: { targetName: string; dependents: string[] }[]
 ): CachedBuildTargets => ({
-  version: 2,
+  version: 3,
   mode: "full-dag",
   headSha: "baseline123",
   targetIds: targets.map((t) => t.targetName),
@@ -24,7 +28,7 @@ const createPartialTargets = (
   targetIds: string[],
   targets?: { targetName: string; dependents: string[] }[]
 ): CachedBuildTargets => ({
-  version: 2,
+  version: 3,
   mode: "filtered",
   baseSha: "base123",
   headSha,
@@ -165,7 +169,7 @@ describe("buildHydratedDag", () => {
 
   it("should throw when baseline is not full-dag mode", () => {
     const filteredBaseline: CachedBuildTargets = {
-      version: 2,
+      version: 3,
       mode: "filtered",
       baseSha: "base123",
       headSha: "abc123",
@@ -188,7 +192,7 @@ describe("buildHydratedDag", () => {
       ]),
       additionalTargets: [
         {
-          version: 2,
+          version: 3,
           mode: "filtered",
           baseSha: "base123",
           headSha: "sha1",
@@ -220,7 +224,7 @@ describe("buildHydratedDag", () => {
       ]),
       additionalTargets: [
         {
-          version: 2,
+          version: 3,
           mode: "filtered",
           baseSha: "base123",
           headSha: "sha1",
@@ -244,4 +248,297 @@ describe("buildHydratedDag", () => {
     );
     expect(utilsDependents).toContain("@monologue/frontend#build");
   });
-});
\ No newline at end of file
+
+  it("should build dependency map from both dependents and dependencies", () => {
+    const result = buildHydratedDag({
+      baselineTargets: createBaselineTargets([
+        { targetName: "@monologue/utils", dependents: ["@monologue/server"] },
+        { targetName: "@monologue/server", dependents: [] },
+        { targetName: "@monologue/frontend", dependents: [] },
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha1",
+          targetIds: ["@monologue/frontend"],
+          graph: [
+            {
+              target: {
+                targetId: "@monologue/frontend#build",
+                targetName: "@monologue/frontend",
+              },
+              dependencies: ["@monologue/utils#build"],
+              dependents: [],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(
+      result.targetIdToDependencyIds.get("@monologue/server#build")
+    ).toEqual(new Set(["@monologue/utils#build"]));
+    expect(
+      result.targetIdToDependencyIds.get("@monologue/frontend#build")
+    ).toEqual(new Set(["@monologue/utils#build"]));
+    expect(
+      result.targetIdToDependencyIds.get("@monologue/utils#build")
+    ).toEqual(new Set());
+  });
+
+  it("should drop targets removed by additionalTargets", () => {
+    const result = buildHydratedDag({
+      baselineTargets: createBaselineTargets([
+        { targetName: "@monologue/utils", dependents: ["@monologue/legacy"] },
+        { targetName: "@monologue/legacy", dependents: ["@monologue/server"] },
+        { targetName: "@monologue/server", dependents: [] },
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha1",
+          targetIds: [],
+          graph: [],
+          removedTargetIds: ["@monologue/legacy#build"],
+        },
+      ],
+    });
+
+    expect(result.targetIdToName.has("@monologue/legacy#build")).toBe(false);
+    expect(result.nameToTargetIds.has("@monologue/legacy")).toBe(false);
+    expect(result.targetIdToDependentIds.has("@monologue/legacy#build")).toBe(
+      false
+    );
+    expect(result.targetIdToDependentIds.get("@monologue/utils#build")).toEqual(
+      new Set()
+    );
+    expect(
+      result.targetIdToDependencyIds.get("@monologue/server#build")
+    ).toEqual(new Set());
+  });
+
+  it("should drop edges removed by additionalTargets", () => {
+    const result = buildHydratedDag({
+      baselineTargets: createBaselineTargets([
+        {
+          targetName: "@monologue/utils",
+          dependents: ["@monologue/server", "@monologue/frontend"],
+        },
+        { targetName: "@monologue/server", dependents: [] },
+        { targetName: "@monologue/frontend", dependents: [] },
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha1",
+          targetIds: ["@monologue/server"],
+          graph: [],
+          removedEdges: [
+            {
+              dependencyId: "@monologue/utils#build",
+              dependentId: "@monologue/server#build",
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.targetIdToDependentIds.get("@monologue/utils#build")).toEqual(
+      new Set(["@monologue/frontend#build"])
+    );
+    expect(
+      result.targetIdToDependencyIds.get("@monologue/server#build")
+    ).toEqual(new Set());
+  });
+
+  it("should keep removed edges still declared by another additionalTargets", () => {
+    const result = buildHydratedDag({
+      baselineTargets: createBaselineTargets([
+        { targetName: "@monologue/utils", dependents: ["@monologue/server"] },
+        { targetName: "@monologue/server", dependents: [] },
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha1",
+          targetIds: ["@monologue/server"],
+          graph: [],
+          removedEdges: [
+            {
+              dependencyId: "@monologue/utils#build",
+              dependentId: "@monologue/server#build",
+            },
+          ],
+        },
+        createPartialTargets(
+          "sha2",
+          ["@monologue/utils"],
+          [
+            {
+              targetName: "@monologue/utils",
+              dependents: ["@monologue/server"],
+            },
+          ]
+        ),
+      ],
+    });
+
+    expect(result.targetIdToDependentIds.get("@monologue/utils#build")).toEqual(
+      new Set(["@monologue/server#build"])
+    );
+  });
+
+  it("should record which payloads declare each target", () => {
+    const result = buildHydratedDag({
+      baselineTargets: createBaselineTargets([
+        { targetName: "@monologue/utils", dependents: [] },
+        { targetName: "@monologue/legacy", dependents: [] },
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha1",
+          targetIds: [],
+          graph: createPartialTargets(
+            "sha1",
+            [],
+            [
+              { targetName: "@monologue/utils", dependents: [] },
+              { targetName: "@monologue/new", dependents: [] },
+            ]
+          ).graph,
+          removedTargetIds: ["@monologue/legacy#build"],
+        },
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "sha2",
+          targetIds: [],
+          graph: [],
+          removedTargetIds: ["@monologue/legacy#build"],
+        },
+      ],
+    });
+
+    expect(result.targetIdToSources).toEqual(
+      new Map([
+        ["@monologue/utils#build", new Set([BASELINE_SOURCE, "sha1"])],
+        ["@monologue/new#build", new Set(["sha1"])],
+      ])
+    );
+  });
+
+  [
+    {
+      staleNames: undefined,
+      expectedTargetIdsByName: {
+        "@monologue/utils": ["@monologue/utils#build"],
+        "@monologue/shared": ["@monologue/utils#build"],
+        "@monologue/common": ["@monologue/utils#build"],
+      },
+    },
+    {
+      staleNames: "drop" as const,
+      expectedTargetIdsByName: {
+        "@monologue/common": ["@monologue/utils#build"],
+      },
+    },
+  ].forEach((tc) => {
+    it(`should record renames and ${tc.staleNames === "drop" ? "drop" : "keep"} stale names`, () => {
+      // Each payload names the utils target
+      const renameTo = (
+        headSha: string,
+        targetName: string
+      ): CachedBuildTargets => ({
+        ...createPartialTargets(headSha, []),
+        graph: [
+          {
+            target: { targetId: "@monologue/utils#build", targetName },
+            dependencies: [],
+            dependents: [],
+          },
+        ],
+      });
+      const result = buildHydratedDag({
+        baselineTargets: createBaselineTargets([
+          { targetName: "@monologue/utils", dependents: [] },
+        ]),
+        additionalTargets: [
+          renameTo("sha1", "@monologue/shared"),
+          renameTo("sha2", "@monologue/shared"),
+          renameTo("sha3", "@monologue/common"),
+        ],
+        staleNames: tc.staleNames,
+      });
+
+      expect(listTargetRenames({ hydratedDag: result })).toEqual([
+        {
+          targetId: "@monologue/utils#build",
+          oldName: "@monologue/utils",
+          newName: "@monologue/shared",
+          sourceSha: "sha1",
+        },
+        {
+          targetId: "@monologue/utils#build",
+          oldName: "@monologue/shared",
+          newName: "@monologue/common",
+          sourceSha: "sha3",
+        },
+      ]);
+      expect(
+        Object.fromEntries(
+          [...result.nameToTargetIds].map(([name, targetIds]) => [
+            name,
+            [...targetIds],
+          ])
+        )
+      ).toEqual(tc.expectedTargetIdsByName);
+    });
+  });
+
+  (["resolve", "drop"] as const).forEach((staleNames) => {
+    it(`should keep the name of a target an additional target leaves unnamed (staleNames: ${staleNames})`, () => {
+      const result = buildHydratedDag({
+        baselineTargets: createBaselineTargets([
+          { targetName: "@monologue/utils", dependents: ["@monologue/server"] },
+          { targetName: "@monologue/server", dependents: [] },
+        ]),
+        additionalTargets: [
+          {
+            ...createPartialTargets("sha1", ["@monologue/utils"]),
+            graph: [
+              {
+                target: { targetId: "@monologue/utils#build" },
+                dependencies: [],
+                dependents: ["@monologue/server#build"],
+              },
+            ],
+          },
+        ],
+        staleNames,
+      });
+
+      expect(listTargetRenames({ hydratedDag: result })).toEqual([]);
+      expect(result.targetIdToName.get("@monologue/utils#build")).toBe(
+        "@monologue/utils"
+      );
+      expect(result.nameToTargetIds.get("@monologue/utils")).toEqual(
+        new Set(["@monologue/utils#build"])
+      );
+      expect(result.nameToTargetIds.has("ID:@monologue/utils#build")).toBe(
+        false
+      );
+    });
+  });
+});
@@ -1,22 +1,244 @@
-import { type CachedBuildTargets } from "./schemas";
+import { buildIndexedDag, type IndexedDag } from "./indexed_dag";
+import {
+  type CachedBuildTargets,
+  type EdgeKind,
+  type RemovedEdge,
+  type Target,
+} from "./schemas";
+
+// Source ID for targets and edges contributed by the baseline
+export const BASELINE_SOURCE = "baseline";
+
+/**
+ * A target whose name an additional payload changed
+ */
+export type TargetRename = {
+  targetId: string;
+  // Name before the rename: the baseline's or an earlier additional payload's
+  oldName: string;
+  newName: string;
+  // Head SHA of the additional payload that renamed the target
+  sourceSha: string;
+};
+
+/**
+ * What happens to a renamed target's old name:
+ * "resolve" keeps it in nameToTargetIds so payloads still using it reach the target,
+ * "drop" removes it so only the current name resolves
+ */
+export type StaleNamePolicy = "resolve" | "drop";
 
 export type HydratedDag = {
   targetIdToDependentIds: Map<string, Set<string>>;
+  targetIdToDependencyIds: Map<string, Set<string>>;
   targetIdToName: Map<string, string>;
   nameToTargetIds: Map<string, Set<string>>;
+  // Only targets whose payload declared a packageRoot
+  targetIdToPackageRoot: Map<string, string>;
+  // targetId → dependentId → kinds of that edge; only edges declared with a kind
+  targetIdToDependentKinds: Map<string, Map<string, Set<EdgeKind>>>;
+  // targetId → BASELINE_SOURCE and/or head SHAs of the additional targets declaring it
+  targetIdToSources: Map<string, Set<string>>;
+  // targetId → renames by additional payloads, in the order they were applied
+  targetIdToRenames: Map<string, TargetRename[]>;
+  // Integer-indexed snapshot of the adjacency maps; traversals use it when present
+  indexedDag?: IndexedDag;
 };
 
+function addToSetMap(
+  map: Map<string, Set<string>>,
+  key: string,
+  value?: string
+) {
+  if (!map.has(key)) {
+    map.set(key, new Set());
+  }
+  if (value !== undefined) {
+    map.get(key)!.add(value);
+  }
+}
+
+function addEdgeKind(
+  dag: HydratedDag,
+  dependencyId: string,
+  dependentId: string,
+  kind: EdgeKind
+) {
+  if (!dag.targetIdToDependentKinds.has(dependencyId)) {
+    dag.targetIdToDependentKinds.set(dependencyId, new Map());
+  }
+  const dependentKinds = dag.targetIdToDependentKinds.get(dependencyId)!;
+  if (!dependentKinds.has(dependentId)) {
+    dependentKinds.set(dependentId, new Set());
+  }
+  dependentKinds.get(dependentId)!.add(kind);
+}
+
+/**
+ * Adds one target's name, package root and edges to the DAG's maps.
+ * Baseline nodes pass includeDependencies = false: their dependencies only feed the
+ * forward map, and their dependents are taken as-is.
+ */
+export function addTargetToHydratedDag(
+  dag: HydratedDag,
+  node: Target,
+  includeDependencies: boolean
+) {
+  const { targetId } = node.target;
+  // A node without a targetName keeps the name an earlier node gave the target
+  const targetName =
+    node.target.targetName ??
+    dag.targetIdToName.get(targetId) ??
+    `ID:${targetId}`;
+  dag.targetIdToName.set(targetId, targetName);
+  addToSetMap(dag.nameToTargetIds, targetName, targetId);
+  if (node.target.packageRoot !== undefined) {
+    dag.targetIdToPackageRoot.set(targetId, node.target.packageRoot);
+  }
+
+  // Process dependents (reverse edges from this target)
+  addToSetMap(dag.targetIdToDependentIds, targetId);
+  for (const dependentId of node.dependents) {
+    dag.targetIdToDependentIds.get(targetId)!.add(dependentId);
+  }
+
+  // Process dependencies (forward edges to this target)
+  // For each dependency, add this target as a dependent
+  if (includeDependencies) {
+    for (const dependencyTargetId of node.dependencies) {
+      addToSetMap(dag.targetIdToDependentIds, dependencyTargetId, targetId);
+    }
+  }
+
+  // Forward edges (target → its dependencies), built from both edge lists so that
+  // a relationship declared on either side of an edge is picked up
+  addToSetMap(dag.targetIdToDependencyIds, targetId);
+  for (const dependencyId of node.dependencies) {
+    dag.targetIdToDependencyIds.get(targetId)!.add(dependencyId);
+  }
+  for (const dependentId of node.dependents) {
+    addToSetMap(dag.targetIdToDependencyIds, dependentId, targetId);
+  }
+
+  // Edge kinds are recorded from either side; an edge declared with several kinds keeps all
+  for (const [dependencyId, kind] of Object.entries(
+    node.dependencyKinds ?? {}
+  )) {
+    addEdgeKind(dag, dependencyId, targetId, kind);
+  }
+  for (const [dependentId, kind] of Object.entries(node.dependentKinds ?? {})) {
+    addEdgeKind(dag, targetId, dependentId, kind);
+  }
+}
+
+function removeEdgeKinds(
+  dag: HydratedDag,
+  dependencyId: string,
+  dependentId: string
+) {
+  const dependentKinds = dag.targetIdToDependentKinds.get(dependencyId);
+  dependentKinds?.delete(dependentId);
+  if (dependentKinds?.size === 0) {
+    dag.targetIdToDependentKinds.delete(dependencyId);
+  }
+}
+
+function removeTarget(dag: HydratedDag, targetId: string) {
+  const name = dag.targetIdToName.get(targetId);
+  if (name !== undefined) {
+    const targetIds = dag.nameToTargetIds.get(name);
+    targetIds?.delete(targetId);
+    if (targetIds?.size === 0) {
+      dag.nameToTargetIds.delete(name);
+    }
+  }
+  dag.targetIdToName.delete(targetId);
+  dag.targetIdToPackageRoot.delete(targetId);
+  dag.targetIdToSources.delete(targetId);
+
+  // Baseline edges may be declared on one side only, so scan every adjacency set
+  // rather than trusting the removed target's own edge lists
+  for (const dependentIds of dag.targetIdToDependentIds.values()) {
+    dependentIds.delete(targetId);
+  }
+  for (const dependencyIds of dag.targetIdToDependencyIds.values()) {
+    dependencyIds.delete(targetId);
+  }
+  dag.targetIdToDependentIds.delete(targetId);
+  dag.targetIdToDependencyIds.delete(targetId);
+
+  dag.targetIdToDependentKinds.delete(targetId);
+  for (const dependencyId of [...dag.targetIdToDependentKinds.keys()]) {
+    removeEdgeKinds(dag, dependencyId, targetId);
+  }
+}
+
+function removeEdge(
+  dag: HydratedDag,
+  { dependencyId, dependentId }: { dependencyId: string; dependentId: string }
+) {
+  dag.targetIdToDependentIds.get(dependencyId)?.delete(dependentId);
+  dag.targetIdToDependencyIds.get(dependentId)?.delete(dependencyId);
+  removeEdgeKinds(dag, dependencyId, dependentId);
+}
+
+function recordRename(
+  dag: HydratedDag,
+  rename: TargetRename,
+  staleNames: StaleNamePolicy
+) {
+  if (!dag.targetIdToRenames.has(rename.targetId)) {
+    dag.targetIdToRenames.set(rename.targetId, []);
+  }
+  dag.targetIdToRenames.get(rename.targetId)!.push(rename);
+
+  if (staleNames === "drop") {
+    const targetIds = dag.nameToTargetIds.get(rename.oldName);
+    targetIds?.delete(rename.targetId);
+    if (targetIds?.size === 0) {
+      dag.nameToTargetIds.delete(rename.oldName);
+    }
+  }
+}
+
+/**
+ * Every rename recorded in the DAG, grouped by target
+ */
+export function listTargetRenames({
+  hydratedDag,
+}: {
+  hydratedDag: HydratedDag;
+}) {
+  return [...hydratedDag.targetIdToRenames.values()].flat();
+}
+
 /**
  * Builds a hydrated DAG by unioning baseline targets with all additional targets.
- * Returns a targetId-based DAG and a targetId→name mapping.
+ * Returns targetId-based DAGs in both directions (dependents and dependencies)
+ * and a targetId→name mapping.
  * The targetId is stable; the name may change between baseline and additional targets.
+ * targetIdToSources records which payloads declare each target, by head SHA.
+ * targetIdToRenames records every name change an additional payload makes; `staleNames`
+ * decides whether the old name still resolves (default "resolve", so a payload that still
+ * uses the old name keeps reaching the target).
+ *
+ * A baseline target or edge is dropped before overlaying only when every additional target
+ * removes it: the DAG is shared by all of them, and one PR's removal must not shrink the
+ * affected sets of PRs that may merge before it. Anything an additional target still
+ * declares is kept, so the result remains a conservative union across all of them.
+ *
+ * Pass `indexed` to also build an IndexedDag for faster traversal on very large graphs.
  */
 export function buildHydratedDag({
   baselineTargets,
   additionalTargets,
+  indexed = false,
+  staleNames = "resolve",
 }: {
   baselineTargets: CachedBuildTargets;
   additionalTargets: CachedBuildTargets[];
+  indexed?: boolean;
+  staleNames?: StaleNamePolicy;
 }): HydratedDag {
   if (baselineTargets.mode !== "full-dag") {
     throw new Error(
@@ -24,69 +246,83 @@ export function buildHydratedDag({
     );
   }
 
-  // Build lookup maps between targetId and package name
-  // additionalTargets override baseline mappings
-  const targetIdToName = new Map<string, string>();
-  const nameToTargetIds = new Map<string, Set<string>>();
+  const dag: HydratedDag = {
+    targetIdToDependentIds: new Map(),
+    targetIdToDependencyIds: new Map(),
+    targetIdToName: new Map(),
+    nameToTargetIds: new Map(),
+    targetIdToPackageRoot: new Map(),
+    targetIdToDependentKinds: new Map(),
+    targetIdToSources: new Map(),
+    targetIdToRenames: new Map(),
+  };
 
+  // Baseline dependents are taken as-is; its dependencies only feed the forward map
   for (const node of baselineTargets.graph) {
-    const targetName = node.target.targetName ?? `ID:${node.target.targetId}`;
-    targetIdToName.set(node.target.targetId, targetName);
-    if (!nameToTargetIds.has(targetName)) {
-      nameToTargetIds.set(targetName, new Set());
-    }
-    nameToTargetIds.get(targetName)!.add(node.target.targetId);
+    addTargetToHydratedDag(dag, node, false);
+    addToSetMap(dag.targetIdToSources, node.target.targetId, BASELINE_SOURCE);
   }
 
+  // How many additional targets remove each baseline target / edge
+  const removedTargetCounts = new Map<string, number>();
+  const removedEdgeCounts = new Map<
+    string,
+    { edge: RemovedEdge; count: number }
+  >();
   for (const targets of additionalTargets) {
-    for (const node of targets.graph) {
-      const targetName = node.target.targetName ?? `ID:${node.target.targetId}`;
-      targetIdToName.set(node.target.targetId, targetName);
-      if (!nameToTargetIds.has(targetName)) {
-        nameToTargetIds.set(targetName, new Set());
-      }
-      nameToTargetIds.get(targetName)!.add(node.target.targetId);
+    if (targets.mode !== "filtered") {
+      continue;
+    }
+    for (const targetId of new Set(targets.removedTargetIds ?? [])) {
+      removedTargetCounts.set(
+        targetId,
+        (removedTargetCounts.get(targetId) ?? 0) + 1
+      );
+    }
+    const edges = new Map(
+      (targets.removedEdges ?? []).map((edge) => [
+        JSON.stringify([edge.dependencyId, edge.dependentId]),
+        edge,
+      ])
+    );
+    for (const [key, edge] of edges) {
+      const removal = removedEdgeCounts.get(key) ?? { edge, count: 0 };
+      removal.count++;
+      removedEdgeCounts.set(key, removal);
     }
   }
-
-  const targetIdToDependentIds = new Map<string, Set<string>>();
-
-  for (const node of baselineTargets.graph) {
-    if (!targetIdToDependentIds.has(node.target.targetId)) {
-      targetIdToDependentIds.set(node.target.targetId, new Set());
+  for (const [targetId, count] of removedTargetCounts) {
+    if (count === additionalTargets.length) {
+      removeTarget(dag, targetId);
     }
-    const dependentIds = targetIdToDependentIds.get(node.target.targetId);
-    if (dependentIds) {
-      for (const dependentId of node.dependents) {
-        dependentIds.add(dependentId);
-      }
+  }
+  for (const { edge, count } of removedEdgeCounts.values()) {
+    if (count === additionalTargets.length) {
+      removeEdge(dag, edge);
     }
   }
 
+  // additionalTargets override baseline mappings
   for (const targets of additionalTargets) {
     for (const node of targets.graph) {
-      if (!targetIdToDependentIds.has(node.target.targetId)) {
-        targetIdToDependentIds.set(node.target.targetId, new Set());
-      }
-
-      // Process dependents (reverse edges from this target)
-      const dependentIds = targetIdToDependentIds.get(node.target.targetId);
-      if (dependentIds) {
-        for (const dependentId of node.dependents) {
-          dependentIds.add(dependentId);
-        }
-      }
-
-      // Process dependencies (forward edges to this target)
-      // For each dependency, add this target as a dependent
-      for (const dependencyTargetId of node.dependencies) {
-        if (!targetIdToDependentIds.has(dependencyTargetId)) {
-          targetIdToDependentIds.set(dependencyTargetId, new Set());
-        }
-        targetIdToDependentIds.get(dependencyTargetId)!.add(node.target.targetId);
+      const { targetId } = node.target;
+      const oldName = dag.targetIdToName.get(targetId);
+      addTargetToHydratedDag(dag, node, true);
+      const newName = dag.targetIdToName.get(targetId)!;
+      if (oldName !== undefined && oldName !== newName) {
+        recordRename(
+          dag,
+          { targetId, oldName, newName, sourceSha: targets.headSha },
+          staleNames
+        );
       }
+      addToSetMap(dag.targetIdToSources, node.target.targetId, targets.headSha);
     }
   }
 
-  return { targetIdToDependentIds, targetIdToName, nameToTargetIds };
-}
\ No newline at end of file
+  if (indexed) {
+    dag.indexedDag = buildIndexedDag({ hydratedDag: dag });
+  }
+
+  return dag;
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { EXIT_CODES, runCli } from "./cli";
+
+let cacheDir: string;
+
+function writePayload(key: string, payload: unknown) {
+  const filePath = path.join(cacheDir, key);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    typeof payload === "string" ? payload : JSON.stringify(payload)
+  );
+  return filePath;
+}
+
+async function run(argv: string[]) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const exitCode = await runCli([...argv, "--cache-dir", cacheDir], {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  });
+  return { exitCode, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+const target = (
+  name: string,
+  dependents: string[],
+  dependencies: string[] = []
+) => ({
+  target: { targetId: `${name}#build`, targetName: name },
+  dependencies: dependencies.map((d) => `${d}#build`),
+  dependents: dependents.map((d) => `${d}#build`),
+});
+
+beforeAll(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-test-"));
+  writePayload("commit-targets/full-base.json", {
+    version: 3,
+    mode: "full-dag",
+    headSha: "base",
+    targetIds: [],
+    graph: [
+      target("@monologue/utils", ["@monologue/server"]),
+      target("@monologue/server", [], ["@monologue/utils"]),
+      target("@monologue/docs", []),
+    ],
+  });
+  for (const [sha, targetIds] of [
+    ["sha1", ["@monologue/utils"]],
+    ["sha2", ["@monologue/server"]],
+    ["sha3", ["@monologue/docs"]],
+  ] as const) {
+    writePayload(`commit-targets/partial-${sha}.json`, {
+      version: 3,
+      mode: "filtered",
+      baseSha: "base",
+      headSha: sha,
+      targetIds,
+      graph: [],
+    });
+  }
+  writePayload("commit-targets/partial-broken.json", "{ not json");
+});
+
+afterAll(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe("runCli", () => {
+  it("should print affected targets", async () => {
+    const result = await run(["affected", "--base", "base", "--head", "sha1"]);
+
+    expect(result.exitCode).toBe(EXIT_CODES.ok);
+    expect(result.stdout).toEqual(
+      "@monologue/server (@monologue/server#build)\n@monologue/utils (@monologue/utils#build)"
+    );
+  });
+
+  it("should print affected targets as JSON", async () => {
+    const result = await run([
+      "affected",
+      "--base",
+      "base",
+      "--head",
+      "sha1",
+      "--json",
+    ]);
+
+    expect(JSON.parse(result.stdout)).toEqual([
+      {
+        id: "@monologue/server#build",
+        name: "@monologue/server",
+        depth: 1,
+        direct: false,
+      },
+      {
+        id: "@monologue/utils#build",
+        name: "@monologue/utils",
+        depth: 0,
+        direct: true,
+      },
+    ]);
+  });
+
+  it("should print transitive dependents of a package", async () => {
+    const result = await run([
+      "dependents",
+      "@monologue/utils",
+      "--base",
+      "base",
+      "--json",
+    ]);
+
+    expect(result.exitCode).toBe(EXIT_CODES.ok);
+    expect(JSON.parse(result.stdout).map((t: { id: string }) => t.id)).toEqual([
+      "@monologue/server#build",
+      "@monologue/utils#build",
+    ]);
+  });
+
+  it("should limit dependents to --max-depth", async () => {
+    const result = await run([
+      "dependents",
+      "@monologue/utils",
+      "--base",
+      "base",
+      "--max-depth",
+      "0",
+    ]);
+
+    expect(result.stdout).toEqual("@monologue/utils (@monologue/utils#build)");
+  });
+
+  it("should print zones", async () => {
+    const result = await run([
+      "zones",
+      "sha1",
+      "sha2",
+      "sha3",
+      "--base",
+      "base",
+    ]);
+
+    expect(result.exitCode).toBe(EXIT_CODES.ok);
+    expect(result.stdout).toContain("Zone 1: sha1, sha2");
+    expect(result.stdout).toContain("Zone 2: sha3");
+  });
+
+  it("should validate a cached targets file", async () => {
+    const valid = await run([
+      "validate",
+      path.join(cacheDir, "commit-targets/full-base.json"),
+    ]);
+    const invalid = await run([
+      "validate",
+      writePayload("cycle.json", {
+        version: 3,
+        mode: "full-dag",
+        headSha: "cycle",
+        targetIds: [],
+        graph: [target("@monologue/a", ["@monologue/a"], ["@monologue/a"])],
+      }),
+    ]);
+
+    expect(valid.exitCode).toBe(EXIT_CODES.ok);
+    expect(invalid.exitCode).toBe(EXIT_CODES.invalid);
+    expect(invalid.stdout).toContain("cycle: @monologue/a#build");
+  });
+
+  [
+    {
+      desc: "should exit with notFound for missing cache entries",
+      argv: ["affected", "--base", "base", "--head", "missing"],
+      expectedExitCode: EXIT_CODES.notFound,
+    },
+    {
+      desc: "should exit with notFound for unknown packages",
+      argv: ["dependents", "@monologue/utlis", "--base", "base"],
+      expectedExitCode: EXIT_CODES.notFound,
+    },
+    {
+      desc: "should exit with invalid for unparseable cache entries",
+      argv: ["affected", "--base", "base", "--head", "broken"],
+      expectedExitCode: EXIT_CODES.invalid,
+    },
+    {
+      desc: "should exit with usage for missing options",
+      argv: ["affected", "--head", "sha1"],
+      expectedExitCode: EXIT_CODES.usage,
+    },
+    {
+      desc: "should exit with usage for invalid --max-depth",
+      argv: [
+        "dependents",
+        "@monologue/utils",
+        "--base",
+        "base",
+        "--max-depth",
+        "-1",
+      ],
+      expectedExitCode: EXIT_CODES.usage,
+    },
+    {
+      desc: "should exit with usage for unknown commands",
+      argv: ["explode"],
+      expectedExitCode: EXIT_CODES.usage,
+    },
+  ].forEach((tc) => {
+    it(tc.desc, async () => {
+      const result = await run(tc.argv);
+
+      expect(result.exitCode).toBe(tc.expectedExitCode);
+      expect(result.stderr).not.toEqual("");
+    });
+  });
+});
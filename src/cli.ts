@@ -0,0 +1,304 @@
+import * as fs from "fs/promises";
+import { parseArgs } from "util";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import {
+  computeTransitiveTargets,
+  computeTransitiveTargetsWithDiagnostics,
+} from "./compute_transitive_targets";
+import {
+  CachedTargetsNotFoundError,
+  getCachedTargetsForCommit,
+  InvalidCachedTargetsError,
+  UnsupportedCachedTargetsVersionError,
+} from "./get_cached_targets";
+import { partitionIntoZones } from "./partition_into_zones";
+import { safeParseCachedBuildTargets } from "./schema_registry";
+import { type CachedBuildTargets } from "./schemas";
+import { createFileSystemStorageClient } from "./storage_clients";
+import type { StorageClient } from "./types";
+import { validateCachedBuildTargets } from "./validate_dag";
+
+export const EXIT_CODES = {
+  ok: 0,
+  failure: 1,
+  usage: 2,
+  notFound: 3,
+  invalid: 4,
+} as const;
+
+const USAGE = `Usage: graphite-transitive-dependencies <command> [options]
+
+Commands:
+  affected --base <sha> --head <sha>   Targets affected by the head commit's changes
+  dependents <pkg> --base <sha>        Transitive dependents of a package or selector
+  zones <sha...> --base <sha>          Merge queue zones for the given PR commits
+  validate <file>                      Validate a cached build targets file
+
+Options:
+  --cache-dir <dir>  Directory holding commit-targets/ (default: current directory)
+  --max-depth <n>    Only include dependents within n edges (affected, dependents)
+  --json             Print machine-readable JSON
+  -h, --help         Show this message
+
+Exit codes: 0 ok, 1 unexpected error, 2 usage error, 3 missing cache entry, 4 invalid cache entry`;
+
+type CliIo = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function requireOption(value: string | undefined, name: string) {
+  if (!value) {
+    throw new UsageError(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+function parseMaxDepth(value: string | undefined) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const maxDepth = Number(value);
+  if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+    throw new UsageError(`Invalid --max-depth: ${value}`);
+  }
+  return maxDepth;
+}
+
+async function fetchBaselineTargets(storageClient: StorageClient, sha: string) {
+  return getCachedTargetsForCommit({
+    commitSha: sha,
+    kind: "full",
+    storageClient,
+  });
+}
+
+async function runCommand({
+  command,
+  positionals,
+  values,
+  io,
+}: {
+  command: string;
+  positionals: string[];
+  values: {
+    base?: string;
+    head?: string;
+    "cache-dir"?: string;
+    "max-depth"?: string;
+    json?: boolean;
+  };
+  io: CliIo;
+}): Promise<number> {
+  const storageClient = createFileSystemStorageClient({
+    rootDir: values["cache-dir"] ?? process.cwd(),
+  });
+  const maxDepth = parseMaxDepth(values["max-depth"]);
+  const print = (text: string, json: unknown) =>
+    io.stdout(values.json ? JSON.stringify(json, null, 2) : text);
+
+  switch (command) {
+    case "affected": {
+      const base = requireOption(values.base, "base");
+      const head = requireOption(values.head, "head");
+      const baselineTargets = await fetchBaselineTargets(storageClient, base);
+      const headTargets = await getCachedTargetsForCommit({
+        commitSha: head,
+        kind: "partial",
+        storageClient,
+      });
+      const affectedTargets = [
+        ...computeTransitiveTargets({
+          directPackageNames: headTargets.targetIds,
+          maxDepth,
+          hydratedDag: buildHydratedDag({
+            baselineTargets,
+            additionalTargets: [headTargets],
+          }),
+        }),
+      ].sort((a, b) => a.id.localeCompare(b.id));
+      print(
+        affectedTargets.map((t) => `${t.name} (${t.id})`).join("\n"),
+        affectedTargets
+      );
+      return EXIT_CODES.ok;
+    }
+
+    case "dependents": {
+      const [packageName] = positionals;
+      if (!packageName) {
+        throw new UsageError("Missing package name");
+      }
+      const base = requireOption(values.base, "base");
+      const { targets, unknownPackageNames, unmatchedSelectors } =
+        computeTransitiveTargetsWithDiagnostics({
+          directPackageNames: [packageName],
+          maxDepth,
+          hydratedDag: buildHydratedDag({
+            baselineTargets: await fetchBaselineTargets(storageClient, base),
+            additionalTargets: [],
+          }),
+        });
+      if (unknownPackageNames.length > 0 || unmatchedSelectors.length > 0) {
+        io.stderr(`No targets match ${packageName} at ${base}`);
+        return EXIT_CODES.notFound;
+      }
+      const dependents = targets
+        .map(({ id, name, depth, direct }) => ({ id, name, depth, direct }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+      print(
+        dependents.map((t) => `${t.name} (${t.id})`).join("\n"),
+        dependents
+      );
+      return EXIT_CODES.ok;
+    }
+
+    case "zones": {
+      if (positionals.length === 0) {
+        throw new UsageError("Missing commit SHAs");
+      }
+      const base = requireOption(values.base, "base");
+      const baselineTargets = await fetchBaselineTargets(storageClient, base);
+      const prTargets = new Map<string, CachedBuildTargets>();
+      for (const sha of positionals) {
+        prTargets.set(
+          sha,
+          await getCachedTargetsForCommit({
+            commitSha: sha,
+            kind: "partial",
+            storageClient,
+          })
+        );
+      }
+      const zones = partitionIntoZones({ baselineTargets, prTargets });
+      print(
+        zones
+          .map((zone, i) =>
+            [
+              `Zone ${i + 1}: ${zone.prIds.join(", ")}`,
+              `  affected: ${zone.affectedTargets.length} targets`,
+              ...zone.sharedTargets.map(
+                (shared) =>
+                  `  shared: ${shared.target.id} (${shared.prIds.join(", ")})`
+              ),
+            ].join("\n")
+          )
+          .join("\n"),
+        zones
+      );
+      return EXIT_CODES.ok;
+    }
+
+    case "validate": {
+      const [file] = positionals;
+      if (!file) {
+        throw new UsageError("Missing file");
+      }
+      const parseResult = safeParseCachedBuildTargets(
+        JSON.parse(await fs.readFile(file, "utf-8"))
+      );
+      if (!parseResult.success) {
+        if (parseResult.reason === "unsupported-version") {
+          throw new UnsupportedCachedTargetsVersionError(
+            file,
+            parseResult.version
+          );
+        }
+        throw new InvalidCachedTargetsError(file, parseResult.error);
+      }
+      const report = validateCachedBuildTargets({
+        cachedTargets: parseResult.data,
+      });
+      print(
+        report.valid
+          ? `${file} is valid`
+          : [
+              `${file} is invalid`,
+              ...report.cycles.map((cycle) => `  cycle: ${cycle.join(" -> ")}`),
+              ...report.danglingReferences.map(
+                (ref) =>
+                  `  dangling: ${ref.targetId} ${ref.edgeList} ${ref.referencedTargetId}`
+              ),
+              ...report.oneSidedEdges.map(
+                (edge) =>
+                  `  one-sided: ${edge.dependencyId} -> ${edge.dependentId} (only in ${edge.declaredOn})`
+              ),
+              ...report.conflictingTargetIds.map(
+                (conflict) =>
+                  `  conflicting names: ${conflict.targetId} (${conflict.targetNames.join(", ")})`
+              ),
+            ].join("\n"),
+        report
+      );
+      return report.valid ? EXIT_CODES.ok : EXIT_CODES.invalid;
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Entry point for the command-line tool. Returns the process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIo = {
+    stdout: (text) => console.log(text),
+    stderr: (text) => console.error(text),
+  }
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        base: { type: "string" },
+        head: { type: "string" },
+        "cache-dir": { type: "string" },
+        "max-depth": { type: "string" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    const [command, ...rest] = positionals;
+    if (values.help || !command) {
+      io.stdout(USAGE);
+      return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+
+    return await runCommand({ command, positionals: rest, values, io });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (
+      err instanceof UsageError ||
+      (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      io.stderr(`${message}\n\n${USAGE}`);
+      return EXIT_CODES.usage;
+    }
+    io.stderr(message);
+    if (
+      err instanceof CachedTargetsNotFoundError ||
+      (err as NodeJS.ErrnoException).code === "ENOENT"
+    ) {
+      return EXIT_CODES.notFound;
+    }
+    if (
+      err instanceof InvalidCachedTargetsError ||
+      err instanceof UnsupportedCachedTargetsVersionError ||
+      err instanceof SyntaxError
+    ) {
+      return EXIT_CODES.invalid;
+    }
+    return EXIT_CODES.failure;
+  }
+}
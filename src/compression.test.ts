@@ -0,0 +1,101 @@
+import * as zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  compressPayload,
+  decompressPayload,
+  detectCompression,
+} from "./compression";
+import { getCachedTargetsForCommit } from "./get_cached_targets";
+import { createInMemoryStorageClient } from "./storage_clients";
+
+const json = JSON.stringify({
+  version: 3,
+  mode: "full-dag",
+  headSha: "abc123",
+  targetIds: ["@monologue/server"],
+  graph: [],
+});
+
+describe("detectCompression", () => {
+  [
+    {
+      desc: "should detect gzip by magic bytes",
+      data: zlib.gzipSync(json),
+      expected: "gzip",
+    },
+    {
+      desc: "should detect gzip by key suffix",
+      data: Buffer.from(""),
+      key: "commit-targets/full-abc123.json.gz",
+      expected: "gzip",
+    },
+    {
+      desc: "should detect brotli by key suffix",
+      data: zlib.brotliCompressSync(json),
+      key: "commit-targets/full-abc123.json.br",
+      expected: "brotli",
+    },
+    {
+      desc: "should treat other buffers as uncompressed",
+      data: Buffer.from(json),
+      key: "commit-targets/full-abc123.json",
+      expected: undefined,
+    },
+    {
+      desc: "should treat strings as uncompressed",
+      data: json,
+      expected: undefined,
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(detectCompression({ data: tc.data, key: tc.key })).toEqual(
+        tc.expected
+      );
+    });
+  });
+});
+
+describe("compressPayload", () => {
+  [
+    { compression: "gzip" as const, key: "payload.json.gz" },
+    { compression: "brotli" as const, key: "payload.json.br" },
+    { compression: undefined, key: "payload.json" },
+  ].forEach((tc) => {
+    it(`should round-trip ${tc.compression ?? "uncompressed"} payloads`, () => {
+      const data = compressPayload({ data: json, compression: tc.compression });
+
+      expect(decompressPayload({ data, key: tc.key })).toEqual(json);
+    });
+  });
+});
+
+describe("getCachedTargetsForCommit with compressed payloads", () => {
+  it("should read gzip payloads stored at the uncompressed key", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: { "commit-targets/full-abc123.json": zlib.gzipSync(json) },
+    });
+
+    const result = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient,
+    });
+
+    expect(result.targetIds).toEqual(["@monologue/server"]);
+  });
+
+  it("should fall back to the uncompressed key", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: { "commit-targets/full-abc123.json": json },
+    });
+
+    const result = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient,
+      compression: "brotli",
+    });
+
+    expect(result.targetIds).toEqual(["@monologue/server"]);
+  });
+});
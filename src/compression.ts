@@ -0,0 +1,88 @@
+import * as zlib from "zlib";
+
+/**
+ * Compression applied to stored payloads
+ */
+export type PayloadCompression = "gzip" | "brotli";
+
+const GZIP_MAGIC_BYTES = [0x1f, 0x8b];
+
+const COMPRESSION_KEY_SUFFIXES: Record<PayloadCompression, string> = {
+  gzip: ".gz",
+  brotli: ".br",
+};
+
+export function getCompressionKeySuffix(compression: PayloadCompression) {
+  return COMPRESSION_KEY_SUFFIXES[compression];
+}
+
+/**
+ * Detects gzip by its magic bytes or a ".gz" key, and brotli by a ".br" key (brotli
+ * streams have no magic bytes). Returns undefined for uncompressed data.
+ */
+export function detectCompression({
+  data,
+  key,
+}: {
+  data: Buffer | string;
+  key?: string;
+}): PayloadCompression | undefined {
+  if (key?.endsWith(COMPRESSION_KEY_SUFFIXES.brotli)) {
+    return "brotli";
+  }
+  if (key?.endsWith(COMPRESSION_KEY_SUFFIXES.gzip)) {
+    return "gzip";
+  }
+  if (
+    typeof data !== "string" &&
+    GZIP_MAGIC_BYTES.every((byte, i) => data[i] === byte)
+  ) {
+    return "gzip";
+  }
+  return undefined;
+}
+
+/**
+ * Returns the payload as a UTF-8 string, decompressing it if needed.
+ * Throws zlib errors for corrupt compressed data.
+ */
+export function decompressPayload({
+  data,
+  key,
+}: {
+  data: Buffer | string;
+  key?: string;
+}) {
+  const compression = detectCompression({ data, key });
+  if (!compression) {
+    return typeof data === "string" ? data : data.toString("utf-8");
+  }
+
+  const buffer = typeof data === "string" ? Buffer.from(data, "binary") : data;
+  const decompressed =
+    compression === "gzip"
+      ? zlib.gunzipSync(buffer)
+      : zlib.brotliDecompressSync(buffer);
+  return decompressed.toString("utf-8");
+}
+
+export function compressPayload({
+  data,
+  compression,
+}: {
+  data: string;
+  compression?: PayloadCompression;
+}): Buffer | string {
+  switch (compression) {
+    case undefined:
+      return data;
+    case "gzip":
+      return zlib.gzipSync(data);
+    case "brotli":
+      return zlib.brotliCompressSync(data, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        },
+      });
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { computeConflictMatrix } from "./compute_conflict_matrix";
+import { type TargetRef } from "./compute_transitive_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+const target = (name: string): TargetRef => ({
+  id: `${name}#build`,
+  name,
+});
+
+describe("computeConflictMatrix", () => {
+  [
+    {
+      desc: "should return no conflicts for disjoint PRs",
+      affectedTargetsByPr: new Map([
+        ["sha1", new Set([target("@monologue/utils")])],
+        ["sha2", new Set([target("@monologue/docs")])],
+      ]),
+      expected: [],
+    },
+    {
+      desc: "should report each conflicting pair with its shared targets",
+      affectedTargetsByPr: new Map([
+        [
+          "sha1",
+          new Set([target("@monologue/utils"), target("@monologue/server")]),
+        ],
+        ["sha2", new Set([target("@monologue/docs")])],
+        [
+          "sha3",
+          new Set([
+            target("@monologue/db-client"),
+            target("@monologue/server"),
+            target("@monologue/utils"),
+          ]),
+        ],
+      ]),
+      expected: [
+        {
+          prIds: ["sha1", "sha3"],
+          targets: [target("@monologue/utils"), target("@monologue/server")],
+        },
+      ],
+    },
+    {
+      desc: "should report every pair that shares a target",
+      affectedTargetsByPr: new Map([
+        ["sha1", new Set([target("@monologue/server")])],
+        ["sha2", new Set([target("@monologue/server")])],
+        ["sha3", new Set([target("@monologue/server")])],
+      ]),
+      expected: [
+        { prIds: ["sha1", "sha2"], targets: [target("@monologue/server")] },
+        { prIds: ["sha1", "sha3"], targets: [target("@monologue/server")] },
+        { prIds: ["sha2", "sha3"], targets: [target("@monologue/server")] },
+      ],
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(
+        computeConflictMatrix({ affectedTargetsByPr: tc.affectedTargetsByPr })
+      ).toEqual(tc.expected);
+    });
+  });
+
+  it("should compute affected targets from raw cached targets", () => {
+    const baselineTargets: CachedBuildTargets = {
+      version: 3,
+      mode: "full-dag",
+      headSha: "baseline123",
+      targetIds: [],
+      graph: [
+        {
+          target: {
+            targetId: "@monologue/utils#build",
+            targetName: "@monologue/utils",
+          },
+          dependencies: [],
+          dependents: ["@monologue/server#build"],
+        },
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/server",
+          },
+          dependencies: ["@monologue/utils#build"],
+          dependents: [],
+        },
+      ],
+    };
+    const createPartialTargets = (
+      headSha: string,
+      targetIds: string[]
+    ): CachedBuildTargets => ({
+      version: 3,
+      mode: "filtered",
+      baseSha: "baseline123",
+      headSha,
+      targetIds,
+      graph: [],
+    });
+
+    const result = computeConflictMatrix({
+      baselineTargets,
+      prTargets: new Map([
+        ["sha1", createPartialTargets("sha1", ["@monologue/utils"])],
+        ["sha2", createPartialTargets("sha2", ["@monologue/server"])],
+      ]),
+    });
+
+    expect(result).toEqual([
+      { prIds: ["sha1", "sha2"], targets: [target("@monologue/server")] },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  computeAffectedTargetsByPr,
+  indexPrsByTargetId,
+} from "./affected_targets_by_pr";
+import { type TargetRef } from "./compute_transitive_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+export type PrConflict = {
+  // Conflicting pair, in input iteration order
+  prIds: [string, string];
+  // Targets affected by both PRs
+  targets: TargetRef[];
+};
+
+/**
+ * Computes a sparse pairwise conflict matrix between queued PRs.
+ * Accepts either precomputed affected targets per PR, or raw cached targets plus a baseline
+ * (affected sets are then computed the same way as partitionIntoZones).
+ * Only conflicting pairs are returned. Pairs are found through a target → PRs index, so the
+ * cost scales with the number of shared targets rather than the number of PR pairs.
+ */
+export function computeConflictMatrix(
+  params:
+    | { affectedTargetsByPr: Map<string, Set<TargetRef>> }
+    | {
+        baselineTargets: CachedBuildTargets;
+        prTargets: Map<string, CachedBuildTargets>;
+      }
+): PrConflict[] {
+  const affectedTargetsByPr =
+    "affectedTargetsByPr" in params
+      ? params.affectedTargetsByPr
+      : computeAffectedTargetsByPr(params);
+
+  const prIdToIndex = new Map<string, number>();
+  for (const prId of affectedTargetsByPr.keys()) {
+    prIdToIndex.set(prId, prIdToIndex.size);
+  }
+
+  const { targetIdToPrIds, targetIdToTarget } =
+    indexPrsByTargetId(affectedTargetsByPr);
+
+  const pairKeyToConflict = new Map<string, PrConflict>();
+  for (const [targetId, prIds] of targetIdToPrIds) {
+    if (prIds.length < 2) {
+      continue;
+    }
+    const target = targetIdToTarget.get(targetId)!;
+    for (let i = 0; i < prIds.length; i++) {
+      for (let j = i + 1; j < prIds.length; j++) {
+        const key = `${prIdToIndex.get(prIds[i])}:${prIdToIndex.get(prIds[j])}`;
+        if (!pairKeyToConflict.has(key)) {
+          pairKeyToConflict.set(key, {
+            prIds: [prIds[i], prIds[j]],
+            targets: [],
+          });
+        }
+        pairKeyToConflict.get(key)!.targets.push(target);
+      }
+    }
+  }
+
+  return [...pairKeyToConflict.values()].sort(
+    (a, b) =>
+      prIdToIndex.get(a.prIds[0])! - prIdToIndex.get(b.prIds[0])! ||
+      prIdToIndex.get(a.prIds[1])! - prIdToIndex.get(b.prIds[1])!
+  );
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { type HydratedDag } from "./build_hydrated_dag";
+import { computeTransitiveDependencies } from "./compute_transitive_dependencies";
+import { type ComputedTarget } from "./compute_transitive_targets";
+
+// Helper to create a HydratedDag from simple package relationships
+function createHydratedDag(
+  packageToDependencies: Record<string, string[]>
+): HydratedDag {
+  const targetIdToDependentIds = new Map<string, Set<string>>();
+  const targetIdToDependencyIds = new Map<string, Set<string>>();
+  const targetIdToName = new Map<string, string>();
+  const nameToTargetIds = new Map<string, Set<string>>();
+
+  for (const [pkg, dependencies] of Object.entries(packageToDependencies)) {
+    const targetId = `${pkg}#build`;
+    targetIdToDependencyIds.set(
+      targetId,
+      new Set(dependencies.map((d) => `${d}#build`))
+    );
+    targetIdToName.set(targetId, pkg);
+    nameToTargetIds.set(pkg, new Set([targetId]));
+  }
+
+  return {
+    targetIdToDependentIds,
+    targetIdToDependencyIds,
+    targetIdToName,
+    nameToTargetIds,
+    targetIdToPackageRoot: new Map(),
+    targetIdToDependentKinds: new Map(),
+    targetIdToSources: new Map(),
+    targetIdToRenames: new Map(),
+  };
+}
+
+// Helper to extract names from targets for easier assertion
+function targetNames(targets: Set<ComputedTarget>): string[] {
+  return [...targets].map((t) => t.name).sort();
+}
+
+type TestCase = {
+  desc: string;
+  directPackageNames: string[];
+  packageToDependencies: Record<string, string[]>;
+  expectedNames: string[];
+};
+
+describe("computeTransitiveDependencies", () => {
+  const testCases: TestCase[] = [
+    {
+      desc: "should return direct packages when no dependencies exist",
+      directPackageNames: ["@monologue/utils"],
+      packageToDependencies: { "@monologue/utils": [] },
+      expectedNames: ["@monologue/utils"],
+    },
+    {
+      desc: "should handle multi-level transitive dependencies",
+      directPackageNames: ["@monologue/backend"],
+      packageToDependencies: {
+        "@monologue/backend": ["@monologue/frontend"],
+        "@monologue/frontend": ["@monologue/utils"],
+        "@monologue/utils": [],
+      },
+      expectedNames: [
+        "@monologue/backend",
+        "@monologue/frontend",
+        "@monologue/utils",
+      ],
+    },
+    {
+      desc: "should not include dependents",
+      directPackageNames: ["@monologue/frontend"],
+      packageToDependencies: {
+        "@monologue/backend": ["@monologue/frontend"],
+        "@monologue/frontend": ["@monologue/utils"],
+        "@monologue/utils": [],
+      },
+      expectedNames: ["@monologue/frontend", "@monologue/utils"],
+    },
+    {
+      desc: "should handle cycles",
+      directPackageNames: ["@monologue/a"],
+      packageToDependencies: {
+        "@monologue/a": ["@monologue/b"],
+        "@monologue/b": ["@monologue/a"],
+      },
+      expectedNames: ["@monologue/a", "@monologue/b"],
+    },
+    {
+      desc: "should include direct packages not in DAG",
+      directPackageNames: ["@monologue/new-package"],
+      packageToDependencies: { "@monologue/server": [] },
+      expectedNames: ["@monologue/new-package"],
+    },
+  ];
+
+  testCases.forEach((tc) => {
+    it(tc.desc, () => {
+      const hydratedDag = createHydratedDag(tc.packageToDependencies);
+
+      const result = computeTransitiveDependencies({
+        directPackageNames: tc.directPackageNames,
+        hydratedDag,
+      });
+
+      expect(targetNames(result)).toEqual(tc.expectedNames.sort());
+    });
+  });
+
+  it("should report depth and stop at maxDepth", () => {
+    const hydratedDag = createHydratedDag({
+      "@monologue/backend": ["@monologue/frontend"],
+      "@monologue/frontend": ["@monologue/utils"],
+      "@monologue/utils": [],
+    });
+
+    const result = computeTransitiveDependencies({
+      directPackageNames: ["@monologue/backend"],
+      hydratedDag,
+      maxDepth: 1,
+    });
+
+    expect([...result]).toEqual([
+      {
+        id: "@monologue/backend#build",
+        name: "@monologue/backend",
+        depth: 0,
+        direct: true,
+      },
+      {
+        id: "@monologue/frontend#build",
+        name: "@monologue/frontend",
+        depth: 1,
+        direct: false,
+      },
+    ]);
+  });
+});
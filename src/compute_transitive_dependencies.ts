@@ -0,0 +1,90 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { type ComputedTarget } from "./compute_transitive_targets";
+import { traverseIndexedDag } from "./indexed_dag";
+import {
+  isLiteralTargetSelector,
+  resolveTargetSelectors,
+} from "./target_selectors";
+
+/**
+ * Computes the upstream transitive closure of targets given package names and a hydrated DAG.
+ * directPackageNames accepts the same selectors as computeTransitiveTargets.
+ * Returns a set of all targets (direct + transitive dependencies) with id, name, depth and
+ * whether they are direct; maxDepth limits how many edges upstream to go.
+ * This is the inverse of computeTransitiveTargets: it answers "what does X need built first".
+ */
+export function computeTransitiveDependencies({
+  directPackageNames,
+  hydratedDag,
+  maxDepth = Infinity,
+}: {
+  directPackageNames: string[];
+  hydratedDag: HydratedDag;
+  maxDepth?: number;
+}) {
+  const { targetIdToDependencyIds, targetIdToName, indexedDag } = hydratedDag;
+
+  const { targetIdToSelector, unmatchedSelectors } = resolveTargetSelectors({
+    selectors: directPackageNames,
+    hydratedDag,
+  });
+  const directTargetIds = [...targetIdToSelector.keys()];
+  const packagesNotInDag = unmatchedSelectors.filter(isLiteralTargetSelector);
+
+  // targetId → edges from the nearest direct target
+  const targetIdToDepth = new Map<string, number>();
+  if (indexedDag) {
+    const { order, depths } = traverseIndexedDag({
+      indexedDag,
+      startIndices: directTargetIds.map((targetId) =>
+        indexedDag.targetIdToIndex.get(targetId)!
+      ),
+      direction: "dependencies",
+      maxDepth,
+    });
+    for (const index of order) {
+      targetIdToDepth.set(indexedDag.targetIds[index], depths[index]);
+    }
+  } else {
+    const toProcess: string[] = [];
+    for (const targetId of directTargetIds) {
+      if (!targetIdToDepth.has(targetId)) {
+        targetIdToDepth.set(targetId, 0);
+        toProcess.push(targetId);
+      }
+    }
+
+    // Index-based queue: shift() would make the walk quadratic
+    for (let head = 0; head < toProcess.length; head++) {
+      const targetId = toProcess[head];
+      const depth = targetIdToDepth.get(targetId)!;
+      if (depth >= maxDepth) {
+        continue;
+      }
+
+      const dependencyIds = targetIdToDependencyIds.get(targetId);
+      if (dependencyIds) {
+        for (const depId of dependencyIds) {
+          if (!targetIdToDepth.has(depId)) {
+            targetIdToDepth.set(depId, depth + 1);
+            toProcess.push(depId);
+          }
+        }
+      }
+    }
+  }
+
+  const targets = new Set<ComputedTarget>();
+  for (const [targetId, depth] of targetIdToDepth) {
+    const name = targetIdToName.get(targetId);
+    if (name) {
+      targets.add({ id: targetId, name, depth, direct: depth === 0 });
+    }
+  }
+
+  for (const name of packagesNotInDag) {
+    targets.add({ id: name, name, depth: 0, direct: true });
+  }
+
+  return targets;
+}
@@ -1,15 +1,24 @@
 import { describe, expect, it } from "vitest";
-import { type HydratedDag } from "./build_hydrated_dag";
+import {
+  BASELINE_SOURCE,
+  buildHydratedDag,
+  type HydratedDag,
+} from "./build_hydrated_dag";
 import {
   type ComputedTarget,
   computeTransitiveTargets,
+  computeTransitiveTargetsWithDiagnostics,
+  explainTransitiveTargets,
+  type TraversalFilters,
 } from "./compute_transitive_targets";
+import { type CachedBuildTargets, type EdgeKind } from "./schemas";
 
 // Helper to create a HydratedDag from simple package relationships
 function createHydratedDag(
   packageToDependents: Record<string, string[]>
 ): HydratedDag {
   const targetIdToDependentIds = new Map<string, Set<string>>();
+  const targetIdToDependencyIds = new Map<string, Set<string>>();
   const targetIdToName = new Map<string, string>();
   const nameToTargetIds = new Map<string, Set<string>>();
 
@@ -23,7 +32,16 @@ function createHydratedDag(
     nameToTargetIds.set(pkg, new Set([targetId]));
   }
 
-  return { targetIdToDependentIds, targetIdToName, nameToTargetIds };
+  return {
+    targetIdToDependentIds,
+    targetIdToDependencyIds,
+    targetIdToName,
+    nameToTargetIds,
+    targetIdToPackageRoot: new Map(),
+    targetIdToDependentKinds: new Map(),
+    targetIdToSources: new Map(),
+    targetIdToRenames: new Map(),
+  };
 }
 
 // Helper to extract names from targets for easier assertion
@@ -122,4 +140,402 @@ describe("computeTransitiveTargets", () => {
     expect(target.id).toEqual("@monologue/server#build");
     expect(target.name).toEqual("@monologue/server");
   });
+
+  [
+    {
+      desc: "should report the depth of every target",
+      maxDepth: undefined,
+      expectedDepths: {
+        "@monologue/utils": 0,
+        "@monologue/ui": 1,
+        "@monologue/web": 1,
+        "@monologue/e2e": 2,
+        "@monologue/new-package": 0,
+      },
+    },
+    {
+      desc: "should stop at maxDepth",
+      maxDepth: 1,
+      expectedDepths: {
+        "@monologue/utils": 0,
+        "@monologue/ui": 1,
+        "@monologue/web": 1,
+        "@monologue/new-package": 0,
+      },
+    },
+    {
+      desc: "should return only direct targets with maxDepth 0",
+      maxDepth: 0,
+      expectedDepths: { "@monologue/utils": 0, "@monologue/new-package": 0 },
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      const hydratedDag = createHydratedDag({
+        "@monologue/utils": ["@monologue/ui", "@monologue/web"],
+        "@monologue/ui": ["@monologue/web"],
+        "@monologue/web": ["@monologue/e2e"],
+        "@monologue/e2e": [],
+      });
+
+      const result = computeTransitiveTargets({
+        directPackageNames: ["@monologue/utils", "@monologue/new-package"],
+        hydratedDag,
+        maxDepth: tc.maxDepth,
+      });
+
+      expect(
+        Object.fromEntries([...result].map((t) => [t.name, t.depth]))
+      ).toEqual(tc.expectedDepths);
+      for (const target of result) {
+        expect(target.direct).toBe(target.depth === 0);
+      }
+    });
+  });
+});
+
+describe("computeTransitiveTargets selectors", () => {
+  it("should expand selectors and only keep placeholders for literal names", () => {
+    const hydratedDag = createHydratedDag({
+      "@monologue/infra-db": ["@monologue/server"],
+      "@monologue/infra-queue": [],
+      "@monologue/server": [],
+    });
+
+    const result = computeTransitiveTargets({
+      directPackageNames: [
+        "@monologue/infra-*",
+        "@monologue/mobile-*",
+        "@monologue/new-package",
+      ],
+      hydratedDag,
+    });
+
+    expect(targetNames(result)).toEqual([
+      "@monologue/infra-db",
+      "@monologue/infra-queue",
+      "@monologue/new-package",
+      "@monologue/server",
+    ]);
+  });
+});
+
+describe("computeTransitiveTargetsWithDiagnostics", () => {
+  const hydratedDag = buildHydratedDag({
+    baselineTargets: {
+      version: 3,
+      mode: "full-dag",
+      headSha: "base",
+      targetIds: [],
+      graph: [
+        {
+          target: { targetId: "utils#build", targetName: "utils" },
+          dependencies: [],
+          dependents: ["server#build"],
+        },
+        {
+          target: { targetId: "server#build", targetName: "server" },
+          dependencies: ["utils#build"],
+          dependents: [],
+        },
+      ],
+    },
+    additionalTargets: [
+      {
+        version: 3,
+        mode: "filtered",
+        baseSha: "base",
+        headSha: "pr1",
+        targetIds: ["docs"],
+        graph: [
+          {
+            target: { targetId: "docs#build", targetName: "docs" },
+            dependencies: ["utils#build"],
+            dependents: [],
+          },
+        ],
+      },
+    ],
+  });
+
+  it("should list unknown names and unmatched selectors separately", () => {
+    const result = computeTransitiveTargetsWithDiagnostics({
+      directPackageNames: ["utils", "utlis", "mobile-*"],
+      hydratedDag,
+    });
+
+    expect(result.targets.map((t) => t.id).sort()).toEqual([
+      "docs#build",
+      "server#build",
+      "utils#build",
+    ]);
+    expect(result.unknownPackageNames).toEqual(["utlis"]);
+    expect(result.unmatchedSelectors).toEqual(["mobile-*"]);
+  });
+
+  it("should record provenance and the direct package name of each target", () => {
+    const result = computeTransitiveTargetsWithDiagnostics({
+      directPackageNames: ["utils"],
+      hydratedDag,
+    });
+
+    expect(result.targets.find((t) => t.id === "docs#build")).toEqual({
+      id: "docs#build",
+      name: "docs",
+      depth: 1,
+      direct: false,
+      directPackageName: "utils",
+      sources: ["pr1"],
+    });
+    expect(
+      result.targets.find((t) => t.id === "server#build")?.sources
+    ).toEqual([BASELINE_SOURCE]);
+  });
+
+  it("should keep placeholders in the computeTransitiveTargets wrapper", () => {
+    const result = computeTransitiveTargets({
+      directPackageNames: ["utlis", "mobile-*"],
+      hydratedDag,
+    });
+
+    expect([...result]).toEqual([
+      { id: "utlis", name: "utlis", depth: 0, direct: true },
+    ]);
+  });
+});
+
+describe("explainTransitiveTargets", () => {
+  it("should return the shortest path from the direct target", () => {
+    const hydratedDag = createHydratedDag({
+      "@monologue/utils": ["@monologue/ui", "@monologue/web"],
+      "@monologue/ui": ["@monologue/web"],
+      "@monologue/web": ["@monologue/e2e"],
+      "@monologue/e2e": [],
+    });
+
+    const result = explainTransitiveTargets({
+      directPackageNames: ["@monologue/utils"],
+      hydratedDag,
+    });
+
+    expect(result.size).toBe(4);
+    expect(result.get("@monologue/utils#build")).toEqual({
+      target: {
+        id: "@monologue/utils#build",
+        name: "@monologue/utils",
+        depth: 0,
+        direct: true,
+      },
+      directPackageName: "@monologue/utils",
+      path: ["@monologue/utils#build"],
+      hops: 0,
+    });
+    expect(result.get("@monologue/e2e#build")).toEqual({
+      target: {
+        id: "@monologue/e2e#build",
+        name: "@monologue/e2e",
+        depth: 2,
+        direct: false,
+      },
+      directPackageName: "@monologue/utils",
+      path: [
+        "@monologue/utils#build",
+        "@monologue/web#build",
+        "@monologue/e2e#build",
+      ],
+      hops: 2,
+    });
+  });
+
+  it("should attribute each target to the nearest direct package", () => {
+    const hydratedDag = createHydratedDag({
+      "@monologue/utils": ["@monologue/api"],
+      "@monologue/api": ["@monologue/server"],
+      "@monologue/db-client": ["@monologue/server"],
+      "@monologue/server": [],
+    });
+
+    const result = explainTransitiveTargets({
+      directPackageNames: ["@monologue/utils", "@monologue/db-client"],
+      hydratedDag,
+    });
+
+    const server = result.get("@monologue/server#build");
+    expect(server?.directPackageName).toEqual("@monologue/db-client");
+    expect(server?.path).toEqual([
+      "@monologue/db-client#build",
+      "@monologue/server#build",
+    ]);
+    expect(server?.hops).toBe(1);
+  });
+
+  it("should explain direct packages not in DAG with an empty chain", () => {
+    const result = explainTransitiveTargets({
+      directPackageNames: ["@monologue/new-package"],
+      hydratedDag: createHydratedDag({ "@monologue/server": [] }),
+    });
+
+    expect(result.get("@monologue/new-package")).toEqual({
+      target: {
+        id: "@monologue/new-package",
+        name: "@monologue/new-package",
+        depth: 0,
+        direct: true,
+      },
+      directPackageName: "@monologue/new-package",
+      path: ["@monologue/new-package"],
+      hops: 0,
+    });
+  });
+});
+
+describe("traversal filters", () => {
+  // utils#build → ui#build (runtime) → web#build (no kind)
+  // utils#build → docs#build (dev) → site#build (runtime)
+  // utils#build → web#typecheck (type) → e2e#build (no kind); utils#lint has no dependents
+  const edges: [string, string, EdgeKind?][] = [
+    ["utils#build", "ui#build", "runtime"],
+    ["ui#build", "web#build"],
+    ["utils#build", "docs#build", "dev"],
+    ["docs#build", "site#build", "runtime"],
+    ["utils#build", "web#typecheck", "type"],
+    ["web#typecheck", "e2e#build"],
+  ];
+  const targetIds = [
+    ...new Set(["utils#lint", ...edges.flatMap(([a, b]) => [a, b])]),
+  ];
+  const baselineTargets: CachedBuildTargets = {
+    version: 3,
+    mode: "full-dag",
+    headSha: "base",
+    targetIds: [],
+    graph: targetIds.map((targetId) => {
+      const outgoing = edges.filter(
+        ([dependencyId]) => dependencyId === targetId
+      );
+      return {
+        target: { targetId, targetName: targetId.split("#")[0] },
+        dependencies: edges
+          .filter(([, dependentId]) => dependentId === targetId)
+          .map(([dependencyId]) => dependencyId),
+        dependents: outgoing.map(([, dependentId]) => dependentId),
+        dependentKinds: Object.fromEntries(
+          outgoing
+            .filter(([, , kind]) => kind)
+            .map(([, dependentId, kind]) => [dependentId, kind!])
+        ),
+      };
+    }),
+  };
+
+  const testCases: (TraversalFilters & {
+    desc: string;
+    expectedIds: string[];
+  })[] = [
+    {
+      desc: "should follow every edge without filters",
+      expectedIds: [
+        "docs#build",
+        "e2e#build",
+        "new-package",
+        "site#build",
+        "ui#build",
+        "utils#build",
+        "utils#lint",
+        "web#build",
+        "web#typecheck",
+      ],
+    },
+    {
+      desc: "should only follow edges of the given kinds and edges without a kind",
+      edgeKinds: ["runtime"],
+      expectedIds: [
+        "new-package",
+        "ui#build",
+        "utils#build",
+        "utils#lint",
+        "web#build",
+      ],
+    },
+    {
+      desc: "should only return the given tasks but traverse through others",
+      tasks: ["build"],
+      expectedIds: [
+        "docs#build",
+        "e2e#build",
+        "new-package",
+        "site#build",
+        "ui#build",
+        "utils#build",
+        "web#build",
+      ],
+    },
+    {
+      desc: "should keep a lint-only change from pulling in builds",
+      tasks: ["lint"],
+      expectedIds: ["new-package", "utils#lint"],
+    },
+    {
+      desc: "should combine edge kind and task filters",
+      edgeKinds: ["runtime", "type"],
+      tasks: ["build"],
+      expectedIds: [
+        "e2e#build",
+        "new-package",
+        "ui#build",
+        "utils#build",
+        "web#build",
+      ],
+    },
+  ];
+
+  [false, true].forEach((indexed) => {
+    testCases.forEach((tc) => {
+      it(`${tc.desc}${indexed ? " (indexed)" : ""}`, () => {
+        const hydratedDag = buildHydratedDag({
+          baselineTargets,
+          additionalTargets: [],
+          indexed,
+        });
+        const options = {
+          directPackageNames: ["utils", "new-package"],
+          hydratedDag,
+          edgeKinds: tc.edgeKinds,
+          tasks: tc.tasks,
+        };
+
+        expect(
+          [...computeTransitiveTargets(options)].map((t) => t.id).sort()
+        ).toEqual(tc.expectedIds);
+        expect([...explainTransitiveTargets(options).keys()].sort()).toEqual(
+          tc.expectedIds
+        );
+      });
+    });
+
+    it(`should treat removed targets and edges as absent${indexed ? " (indexed)" : ""}`, () => {
+      const hydratedDag = buildHydratedDag({
+        baselineTargets,
+        additionalTargets: [],
+        indexed,
+      });
+      const options = {
+        directPackageNames: ["utils"],
+        hydratedDag,
+        removedTargetIds: ["docs#build"],
+        removedEdges: [
+          { dependencyId: "utils#build", dependentId: "web#typecheck" },
+        ],
+      };
+
+      expect(
+        [...computeTransitiveTargets(options)].map((t) => t.id).sort()
+      ).toEqual(["ui#build", "utils#build", "utils#lint", "web#build"]);
+      // The DAG itself is untouched
+      expect(
+        [...computeTransitiveTargets({ ...options, removedEdges: [] })]
+          .map((t) => t.id)
+          .sort()
+      ).toContain("e2e#build");
+    });
+  });
 });
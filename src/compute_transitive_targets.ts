@@ -1,69 +1,414 @@
 import { type HydratedDag } from "./build_hydrated_dag";
+import { traverseIndexedDag } from "./indexed_dag";
+import { type EdgeKind, type RemovedEdge } from "./schemas";
+import { parseTargetId } from "./target_id";
+import {
+  isLiteralTargetSelector,
+  resolveTargetSelectors,
+} from "./target_selectors";
 
-export type ComputedTarget = {
+/**
+ * A target identified across PRs, without per-traversal details
+ */
+export type TargetRef = {
   id: string;
   name: string;
 };
 
+export type ComputedTarget = TargetRef & {
+  // Edges from the nearest direct target; 0 for direct targets
+  depth: number;
+  // Whether the target was resolved from a direct package name
+  direct: boolean;
+};
+
+export type TargetExplanation = {
+  target: ComputedTarget;
+  // Direct package name whose change pulled this target in
+  directPackageName: string;
+  // Target IDs from the direct target to this target (inclusive on both ends)
+  path: string[];
+  // Number of edges between the direct target and this target
+  hops: number;
+};
+
+export type DiagnosedTarget = ComputedTarget & {
+  // directPackageNames entry (name or selector) whose change pulled this target in
+  directPackageName: string;
+  // Payloads declaring the target: BASELINE_SOURCE and/or head SHAs of additional targets
+  sources: string[];
+};
+
+export type TransitiveTargetsResult = {
+  // Targets found in the DAG, in breadth-first order from the direct targets
+  targets: DiagnosedTarget[];
+  // Literal names (or target IDs) from directPackageNames that are not in the DAG
+  unknownPackageNames: string[];
+  // Glob and package root selectors from directPackageNames that matched no target
+  unmatchedSelectors: string[];
+};
+
+export type TraversalFilters = {
+  // Only follow edges of these kinds; edges declared without a kind are always followed
+  edgeKinds?: EdgeKind[];
+  // Only return targets with these tasks; traversal still passes through other tasks
+  tasks?: string[];
+};
+
+export type TransitiveTargetsParams = TraversalFilters & {
+  directPackageNames: string[];
+  hydratedDag: HydratedDag;
+  maxDepth?: number;
+  // Treated as absent for this traversal only, e.g. the removals of the PR being traversed
+  // for in a DAG shared with other PRs
+  removedTargetIds?: string[];
+  removedEdges?: RemovedEdge[];
+};
+
+// Target IDs without a task never match a task filter
+function matchesTasks(targetId: string, tasks: string[] | undefined) {
+  if (!tasks) {
+    return true;
+  }
+  const { task } = parseTargetId(targetId);
+  return task !== undefined && tasks.includes(task);
+}
+
 /**
- * Computes the transitive closure of targets given direct package names and a hydrated DAG.
- * Returns a set of all targets (direct + transitive dependents) with both id and name.
+ * Breadth-first walk over dependents, recording the parent each target was first reached from.
+ * Because targets are recorded when first enqueued, each parent chain is a shortest path.
+ * Stops maxDepth edges away from the direct targets and skips edges excluded by edgeKinds,
+ * removed targets and removed edges.
+ * Runs over hydratedDag.indexedDag when present.
+ * Reached targets come back in visit order with parallel depths and origins (index into
+ * directSelectors of the direct target each was pulled in by), so callers don't need a
+ * lookup per target.
  */
-export function computeTransitiveTargets({
+function traverseDependents({
   directPackageNames,
   hydratedDag,
+  maxDepth = Infinity,
+  edgeKinds,
+  removedTargetIds = [],
+  removedEdges = [],
 }: {
   directPackageNames: string[];
   hydratedDag: HydratedDag;
+  maxDepth?: number;
+  edgeKinds?: EdgeKind[];
+  removedTargetIds?: string[];
+  removedEdges?: RemovedEdge[];
 }) {
-  const { targetIdToDependentIds, targetIdToName, nameToTargetIds } =
+  const { targetIdToDependentIds, targetIdToDependentKinds, indexedDag } =
     hydratedDag;
 
-  const packagesNotInDag: string[] = [];
+  // direct targetId → package name or selector it was resolved from
+  const { targetIdToSelector: directTargetIdToName, unmatchedSelectors } =
+    resolveTargetSelectors({ selectors: directPackageNames, hydratedDag });
+  const directTargetIds = [...directTargetIdToName.keys()];
+  // Selector of each direct target, in directTargetIds order
+  const directSelectors = [...directTargetIdToName.values()];
+  // Literal names not in the DAG vs patterns that matched nothing
+  const packagesNotInDag = unmatchedSelectors.filter(isLiteralTargetSelector);
+  const unmatchedPatterns = unmatchedSelectors.filter(
+    (selector) => !isLiteralTargetSelector(selector)
+  );
+
+  if (indexedDag) {
+    const { targetIds, targetIdToIndex } = indexedDag;
+    const startIndices = directTargetIds.map((targetId) =>
+      targetIdToIndex.get(targetId)!
+    );
+    const { order, parents, depths } = traverseIndexedDag({
+      indexedDag,
+      startIndices,
+      direction: "dependents",
+      maxDepth,
+      edgeKinds,
+      excludedIndices: new Set(
+        removedTargetIds
+          .filter((targetId) => targetIdToIndex.has(targetId))
+          .map((targetId) => targetIdToIndex.get(targetId)!)
+      ),
+      excludedEdges: removedEdges
+        .filter(
+          ({ dependencyId, dependentId }) =>
+            targetIdToIndex.has(dependencyId) &&
+            targetIdToIndex.has(dependentId)
+        )
+        .map(({ dependencyId, dependentId }) => ({
+          dependencyIndex: targetIdToIndex.get(dependencyId)!,
+          dependentIndex: targetIdToIndex.get(dependentId)!,
+        })),
+    });
 
-  const directTargetIds: string[] = [];
-  for (const name of directPackageNames) {
-    const targetIds = nameToTargetIds.get(name);
-    if (targetIds) {
-      directTargetIds.push(...targetIds);
-    } else {
-      packagesNotInDag.push(name);
+    // Parents are reached before their dependents, so each origin is copied from an
+    // already assigned entry
+    const originByIndex = new Int32Array(targetIds.length);
+    startIndices.forEach((index, i) => {
+      originByIndex[index] = i;
+    });
+    const reachedDepths = new Uint32Array(order.length);
+    const reachedOrigins = new Int32Array(order.length);
+    for (let i = 0; i < order.length; i++) {
+      const index = order[i];
+      if (parents[index] >= 0) {
+        originByIndex[index] = originByIndex[parents[index]];
+      }
+      reachedDepths[i] = depths[index];
+      reachedOrigins[i] = originByIndex[index];
     }
+
+    return {
+      reachedTargetIds: Array.from(order, (index) => targetIds[index]),
+      reachedDepths,
+      reachedOrigins,
+      // null for direct targets
+      getParentId: (targetId: string) => {
+        const parent = parents[targetIdToIndex.get(targetId)!];
+        return parent < 0 ? null : targetIds[parent];
+      },
+      directSelectors,
+      packagesNotInDag,
+      unmatchedPatterns,
+    };
   }
 
-  const resultTargetIds = new Set<string>();
-  const toProcess = [...directTargetIds];
-  const processed = new Set<string>();
+  const removedTargetIdSet = new Set(removedTargetIds);
+  const removedEdgeKeys = new Set(
+    removedEdges.map(({ dependencyId, dependentId }) =>
+      JSON.stringify([dependencyId, dependentId])
+    )
+  );
+  const isFollowed = (targetId: string, dependentId: string) => {
+    if (
+      removedTargetIdSet.has(dependentId) ||
+      (removedEdgeKeys.size > 0 &&
+        removedEdgeKeys.has(JSON.stringify([targetId, dependentId])))
+    ) {
+      return false;
+    }
+    const kinds = targetIdToDependentKinds.get(targetId)?.get(dependentId);
+    return !edgeKinds || !kinds || edgeKinds.some((kind) => kinds.has(kind));
+  };
+
+  // targetId → parent targetId (null for direct targets)
+  const parents = new Map<string, string | null>();
+  const toProcess: string[] = [];
+  // Parallel to toProcess
+  const reachedDepths: number[] = [];
+  const reachedOrigins: number[] = [];
+  directTargetIds.forEach((targetId, i) => {
+    parents.set(targetId, null);
+    toProcess.push(targetId);
+    reachedDepths.push(0);
+    reachedOrigins.push(i);
+  });
 
-  while (toProcess.length > 0) {
-    const targetId = toProcess.shift();
-    if (!targetId || processed.has(targetId)) {
+  // Index-based queue: shift() would make the walk quadratic
+  for (let head = 0; head < toProcess.length; head++) {
+    const targetId = toProcess[head];
+    const depth = reachedDepths[head];
+    if (depth >= maxDepth) {
       continue;
     }
-    processed.add(targetId);
-    resultTargetIds.add(targetId);
 
     const dependentIds = targetIdToDependentIds.get(targetId);
     if (dependentIds) {
       for (const depId of dependentIds) {
-        if (!processed.has(depId)) {
+        if (!parents.has(depId) && isFollowed(targetId, depId)) {
+          parents.set(depId, targetId);
           toProcess.push(depId);
+          reachedDepths.push(depth + 1);
+          reachedOrigins.push(reachedOrigins[head]);
         }
       }
     }
   }
 
-  const targets = new Set<ComputedTarget>();
-  for (const targetId of resultTargetIds) {
+  return {
+    reachedTargetIds: toProcess,
+    reachedDepths,
+    reachedOrigins,
+    getParentId: (targetId: string) => parents.get(targetId) ?? null,
+    directSelectors,
+    packagesNotInDag,
+    unmatchedPatterns,
+  };
+}
+
+/**
+ * Computes the transitive closure of targets given direct package names and a hydrated DAG.
+ * directPackageNames may also hold name, target ID or package root selectors (see
+ * parseTargetSelector).
+ * Returns every target found in the DAG (direct + transitive dependents) once, with its
+ * depth, the directPackageNames entry that pulled it in and the payloads declaring it;
+ * names and selectors that resolved to nothing are listed separately. With maxDepth, only
+ * dependents within that many edges of a direct target are included.
+ * `edgeKinds` and `tasks` narrow the result, e.g. { edgeKinds: ["runtime"], tasks: ["build"] }
+ * keeps a change from pulling in builds that only depend on it for dev tooling.
+ */
+export function computeTransitiveTargetsWithDiagnostics({
+  directPackageNames,
+  hydratedDag,
+  maxDepth,
+  edgeKinds,
+  tasks,
+  removedTargetIds,
+  removedEdges,
+}: TransitiveTargetsParams): TransitiveTargetsResult {
+  const { targetIdToName, targetIdToSources } = hydratedDag;
+  const {
+    reachedTargetIds,
+    reachedDepths,
+    reachedOrigins,
+    directSelectors,
+    packagesNotInDag,
+    unmatchedPatterns,
+  } = traverseDependents({
+    directPackageNames,
+    hydratedDag,
+    maxDepth,
+    edgeKinds,
+    removedTargetIds,
+    removedEdges,
+  });
+
+  const targets: DiagnosedTarget[] = [];
+  for (let i = 0; i < reachedTargetIds.length; i++) {
+    const targetId = reachedTargetIds[i];
+    const name = targetIdToName.get(targetId);
+    if (name && matchesTasks(targetId, tasks)) {
+      targets.push({
+        id: targetId,
+        name,
+        depth: reachedDepths[i],
+        direct: reachedDepths[i] === 0,
+        directPackageName: directSelectors[reachedOrigins[i]],
+        sources: [...(targetIdToSources.get(targetId) ?? [])],
+      });
+    }
+  }
+
+  return {
+    targets,
+    unknownPackageNames: packagesNotInDag,
+    unmatchedSelectors: unmatchedPatterns,
+  };
+}
+
+/**
+ * Set-returning form of computeTransitiveTargetsWithDiagnostics, kept for compatibility.
+ * Literal names not in the DAG come back as placeholder targets with id === name, so
+ * unknown packages still overlap with each other; selectors that matched nothing are dropped.
+ * Skips the diagnostics (directPackageName, sources) it would discard.
+ */
+export function computeTransitiveTargets({
+  directPackageNames,
+  hydratedDag,
+  maxDepth,
+  edgeKinds,
+  tasks,
+  removedTargetIds,
+  removedEdges,
+}: TransitiveTargetsParams) {
+  const { targetIdToName } = hydratedDag;
+  const { reachedTargetIds, reachedDepths, packagesNotInDag } =
+    traverseDependents({
+      directPackageNames,
+      hydratedDag,
+      maxDepth,
+      edgeKinds,
+      removedTargetIds,
+      removedEdges,
+    });
+
+  const result = new Set<ComputedTarget>();
+  for (let i = 0; i < reachedTargetIds.length; i++) {
+    const targetId = reachedTargetIds[i];
     const name = targetIdToName.get(targetId);
-    if (name) {
-      targets.add({ id: targetId, name });
+    if (name && matchesTasks(targetId, tasks)) {
+      result.add({
+        id: targetId,
+        name,
+        depth: reachedDepths[i],
+        direct: reachedDepths[i] === 0,
+      });
     }
   }
+  for (const name of packagesNotInDag) {
+    result.add({ id: name, name, depth: 0, direct: true });
+  }
+  return result;
+}
+
+/**
+ * Explain mode for computeTransitiveTargets.
+ * Returns the same targets keyed by target ID, each with the shortest chain of target IDs
+ * from the direct package that triggered it, plus the hop count.
+ * Paths may pass through targets that the tasks filter leaves out of the result.
+ */
+export function explainTransitiveTargets({
+  directPackageNames,
+  hydratedDag,
+  maxDepth,
+  edgeKinds,
+  tasks,
+  removedTargetIds,
+  removedEdges,
+}: TransitiveTargetsParams) {
+  const { targetIdToName } = hydratedDag;
+  const {
+    reachedTargetIds,
+    reachedOrigins,
+    getParentId,
+    directSelectors,
+    packagesNotInDag,
+  } = traverseDependents({
+    directPackageNames,
+    hydratedDag,
+    maxDepth,
+    edgeKinds,
+    removedTargetIds,
+    removedEdges,
+  });
+
+  const explanations = new Map<string, TargetExplanation>();
+  for (let i = 0; i < reachedTargetIds.length; i++) {
+    const targetId = reachedTargetIds[i];
+    const name = targetIdToName.get(targetId);
+    if (!name || !matchesTasks(targetId, tasks)) {
+      continue;
+    }
+
+    const path = [targetId];
+    let parentId = getParentId(targetId);
+    while (parentId !== null) {
+      path.unshift(parentId);
+      parentId = getParentId(parentId);
+    }
+
+    explanations.set(targetId, {
+      target: {
+        id: targetId,
+        name,
+        depth: path.length - 1,
+        direct: path.length === 1,
+      },
+      directPackageName: directSelectors[reachedOrigins[i]],
+      path,
+      hops: path.length - 1,
+    });
+  }
 
   for (const name of packagesNotInDag) {
-    targets.add({ id: name, name });
+    explanations.set(name, {
+      target: { id: name, name, depth: 0, direct: true },
+      directPackageName: name,
+      path: [name],
+      hops: 0,
+    });
   }
 
-  return targets;
+  return explanations;
 }
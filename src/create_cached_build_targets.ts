@@ -0,0 +1,58 @@
+import {
+  normalizeCachedBuildTargets,
+  type WritableTarget,
+} from "./put_cached_targets";
+import {
+  CACHED_BUILD_TARGETS_VERSION,
+  type CachedBuildTargets,
+} from "./schemas";
+
+export class InvalidBuildGraphInputError extends Error {
+  constructor(
+    public source: string,
+    public error: unknown
+  ) {
+    super(`Invalid ${source} build graph input`);
+    this.name = "InvalidBuildGraphInputError";
+  }
+}
+
+/**
+ * Wraps a build tool graph in a normalized CachedBuildTargets payload.
+ * Produces a full-dag payload when baseSha is omitted and a filtered payload otherwise.
+ * targetIds defaults to every target name in the graph.
+ */
+export function createCachedBuildTargets({
+  graph,
+  headSha,
+  baseSha,
+  targetIds,
+}: {
+  graph: WritableTarget[];
+  headSha: string;
+  baseSha?: string;
+  targetIds?: string[];
+}): CachedBuildTargets {
+  const resolvedTargetIds =
+    targetIds ??
+    graph.map((node) => node.target.targetName ?? node.target.targetId);
+
+  return normalizeCachedBuildTargets(
+    baseSha === undefined
+      ? {
+          version: CACHED_BUILD_TARGETS_VERSION,
+          mode: "full-dag",
+          headSha,
+          targetIds: resolvedTargetIds,
+          graph,
+        }
+      : {
+          version: CACHED_BUILD_TARGETS_VERSION,
+          mode: "filtered",
+          baseSha,
+          headSha,
+          targetIds: resolvedTargetIds,
+          graph,
+        }
+  );
+}
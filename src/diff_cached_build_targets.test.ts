@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest";
+import { diffCachedBuildTargets } from "./diff_cached_build_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+// Full-dag payload from [name, dependency names] pairs; dependents are derived
+const fullDag = (
+  headSha: string,
+  packages: [name: string, dependencies: string[]][],
+  targetNames: Record<string, string> = {}
+): CachedBuildTargets => ({
+  version: 3,
+  mode: "full-dag",
+  headSha,
+  targetIds: [],
+  graph: packages.map(([name, dependencies]) => ({
+    target: {
+      targetId: `${name}#build`,
+      targetName: targetNames[name] ?? name,
+    },
+    dependencies: dependencies.map((dependency) => `${dependency}#build`),
+    dependents: packages
+      .filter(([, otherDependencies]) => otherDependencies.includes(name))
+      .map(([otherName]) => `${otherName}#build`),
+  })),
+});
+
+const before = fullDag("main1", [
+  ["utils", []],
+  ["db-client", ["utils"]],
+  ["server", ["db-client"]],
+  ["web", []],
+  ["docs", []],
+]);
+
+describe("diffCachedBuildTargets", () => {
+  [
+    {
+      desc: "should report nothing for identical graphs",
+      after: fullDag("main2", [
+        ["utils", []],
+        ["db-client", ["utils"]],
+        ["server", ["db-client"]],
+        ["web", []],
+        ["docs", []],
+      ]),
+      expected: {
+        addedTargetIds: [],
+        removedTargetIds: [],
+        addedEdges: [],
+        removedEdges: [],
+        renamedTargets: [],
+        dependentCountChanges: [],
+      },
+    },
+    {
+      desc: "should report an added edge and the dependent counts it grows upstream",
+      after: fullDag("main2", [
+        ["utils", []],
+        ["db-client", ["utils"]],
+        ["server", ["db-client"]],
+        ["web", ["server"]],
+        ["docs", []],
+      ]),
+      expected: {
+        addedTargetIds: [],
+        removedTargetIds: [],
+        addedEdges: [
+          { dependencyId: "server#build", dependentId: "web#build" },
+        ],
+        removedEdges: [],
+        renamedTargets: [],
+        dependentCountChanges: [
+          { targetId: "utils#build", name: "utils", before: 2, after: 3 },
+          {
+            targetId: "db-client#build",
+            name: "db-client",
+            before: 1,
+            after: 2,
+          },
+          { targetId: "server#build", name: "server", before: 0, after: 1 },
+        ],
+      },
+    },
+    {
+      desc: "should report added and removed targets with their edges",
+      after: fullDag("main2", [
+        ["utils", []],
+        ["db-client", ["utils"]],
+        ["server", ["db-client"]],
+        ["web", []],
+        ["cli", ["utils"]],
+      ]),
+      expected: {
+        addedTargetIds: ["cli#build"],
+        removedTargetIds: ["docs#build"],
+        addedEdges: [{ dependencyId: "utils#build", dependentId: "cli#build" }],
+        removedEdges: [],
+        renamedTargets: [],
+        dependentCountChanges: [
+          { targetId: "utils#build", name: "utils", before: 2, after: 3 },
+        ],
+      },
+    },
+    {
+      desc: "should report a removed edge and renamed targets",
+      after: fullDag(
+        "main2",
+        [
+          ["utils", []],
+          ["db-client", []],
+          ["server", ["db-client"]],
+          ["web", []],
+          ["docs", []],
+        ],
+        { "db-client": "database" }
+      ),
+      expected: {
+        addedTargetIds: [],
+        removedTargetIds: [],
+        addedEdges: [],
+        removedEdges: [
+          { dependencyId: "utils#build", dependentId: "db-client#build" },
+        ],
+        renamedTargets: [
+          {
+            targetId: "db-client#build",
+            oldName: "db-client",
+            newName: "database",
+          },
+        ],
+        dependentCountChanges: [
+          { targetId: "utils#build", name: "utils", before: 2, after: 0 },
+        ],
+      },
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(diffCachedBuildTargets({ before, after: tc.after })).toEqual({
+        beforeSha: "main1",
+        afterSha: "main2",
+        ...tc.expected,
+      });
+    });
+  });
+
+  it("should compare edges declared on only one side", () => {
+    const after = fullDag("main2", [
+      ["utils", []],
+      ["db-client", ["utils"]],
+      ["server", ["db-client"]],
+      ["web", []],
+      ["docs", []],
+    ]);
+    // Only the dependencies list declares the edge
+    after.graph.find(
+      ({ target }) => target.targetId === "utils#build"
+    )!.dependents = [];
+
+    const diff = diffCachedBuildTargets({ before, after });
+
+    expect(diff.addedEdges).toEqual([]);
+    expect(diff.removedEdges).toEqual([]);
+  });
+
+  it("should keep only the topTargets most-connected changes", () => {
+    const after = fullDag("main2", [
+      ["utils", []],
+      ["db-client", ["utils"]],
+      ["server", ["db-client"]],
+      ["web", ["server"]],
+      ["docs", []],
+    ]);
+
+    expect(
+      diffCachedBuildTargets({ before, after, topTargets: 1 })
+        .dependentCountChanges
+    ).toEqual([
+      { targetId: "utils#build", name: "utils", before: 2, after: 3 },
+    ]);
+  });
+
+  it("should skip targets whose dependent count didn't change", () => {
+    const before = fullDag("main1", [
+      ["utils", []],
+      ["db-client", ["utils"]],
+      ["server", ["db-client"]],
+      ["web", ["utils"]],
+    ]);
+    // utils already reaches web, so only db-client and server gain a dependent
+    const after = fullDag("main2", [
+      ["utils", []],
+      ["db-client", ["utils"]],
+      ["server", ["db-client"]],
+      ["web", ["utils", "server"]],
+    ]);
+
+    expect(
+      diffCachedBuildTargets({ before, after }).dependentCountChanges
+    ).toEqual([
+      { targetId: "db-client#build", name: "db-client", before: 1, after: 2 },
+      { targetId: "server#build", name: "server", before: 0, after: 1 },
+    ]);
+    expect(
+      diffCachedBuildTargets({ before, after, topTargets: 1 })
+        .dependentCountChanges
+    ).toEqual([
+      { targetId: "db-client#build", name: "db-client", before: 1, after: 2 },
+    ]);
+  });
+
+  it("should rank by exact dependent counts in graphs full of diamonds", () => {
+    // a0 → b0, c0 → a1 → ... → a9: many paths, but only 27 dependents of a0
+    const diamonds: [string, string[]][] = [["a0", []]];
+    for (let i = 0; i < 9; i++) {
+      diamonds.push(
+        [`b${i}`, [`a${i}`]],
+        [`c${i}`, [`a${i}`]],
+        [`a${i + 1}`, [`b${i}`, `c${i}`]]
+      );
+    }
+    const hubLeaves = (count: number): [string, string[]][] =>
+      Array.from({ length: count }, (_, i) => [`leaf${i}`, ["hub"]]);
+    const before = fullDag("main1", [
+      ...diamonds,
+      ["hub", []],
+      ...hubLeaves(40),
+    ]);
+    const after = fullDag("main2", [
+      ...diamonds,
+      ["a-leaf", ["a9"]],
+      ["hub", []],
+      ...hubLeaves(41),
+    ]);
+
+    expect(
+      diffCachedBuildTargets({ before, after, topTargets: 1 })
+        .dependentCountChanges
+    ).toEqual([{ targetId: "hub#build", name: "hub", before: 40, after: 41 }]);
+  });
+
+  it("should reject payloads that are not full-dag", () => {
+    const filtered: CachedBuildTargets = {
+      version: 3,
+      mode: "filtered",
+      baseSha: "main1",
+      headSha: "pr1",
+      targetIds: [],
+      graph: [],
+    };
+
+    expect(() => diffCachedBuildTargets({ before, after: filtered })).toThrow(
+      "must have full-dag mode"
+    );
+  });
+});
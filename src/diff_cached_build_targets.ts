@@ -0,0 +1,276 @@
+import { buildHydratedDag, type HydratedDag } from "./build_hydrated_dag";
+import { type IndexedDag, traverseIndexedDag } from "./indexed_dag";
+import { type CachedBuildTargets } from "./schemas";
+
+export type DependencyEdge = {
+  // Target ID that is depended on
+  dependencyId: string;
+  dependentId: string;
+};
+
+export type DependentCountChange = {
+  targetId: string;
+  name: string;
+  // Transitive dependents in each graph; 0 where the target doesn't exist
+  before: number;
+  after: number;
+};
+
+export type CachedBuildTargetsDiff = {
+  beforeSha: string;
+  afterSha: string;
+  addedTargetIds: string[];
+  removedTargetIds: string[];
+  addedEdges: DependencyEdge[];
+  removedEdges: DependencyEdge[];
+  renamedTargets: { targetId: string; oldName: string; newName: string }[];
+  // Most-connected targets whose transitive dependent count changed, most connected first
+  dependentCountChanges: DependentCountChange[];
+};
+
+function hydrate(targets: CachedBuildTargets) {
+  return buildHydratedDag({
+    baselineTargets: targets,
+    additionalTargets: [],
+    indexed: true,
+  });
+}
+
+// Every edge, whichever side declared it, keyed so the two graphs can be compared
+function collectEdges({
+  targetIdToDependentIds,
+  targetIdToDependencyIds,
+}: HydratedDag) {
+  const edges = new Map<string, DependencyEdge>();
+  const add = (dependencyId: string, dependentId: string) => {
+    edges.set(JSON.stringify([dependencyId, dependentId]), {
+      dependencyId,
+      dependentId,
+    });
+  };
+  for (const [dependencyId, dependentIds] of targetIdToDependentIds) {
+    for (const dependentId of dependentIds) {
+      add(dependencyId, dependentId);
+    }
+  }
+  for (const [dependentId, dependencyIds] of targetIdToDependencyIds) {
+    for (const dependencyId of dependencyIds) {
+      add(dependencyId, dependentId);
+    }
+  }
+  return edges;
+}
+
+// Sorted keys of `from` that are missing from `without`
+function missingKeys(
+  from: Map<string, unknown>,
+  without: Map<string, unknown>
+) {
+  return [...from.keys()].filter((key) => !without.has(key)).sort();
+}
+
+function traverseFrom(
+  hydratedDag: HydratedDag,
+  targetIds: string[],
+  direction: "dependents" | "dependencies"
+) {
+  const { targetIds: indexToTargetId, targetIdToIndex } =
+    hydratedDag.indexedDag!;
+  const { order } = traverseIndexedDag({
+    indexedDag: hydratedDag.indexedDag!,
+    startIndices: targetIds
+      .filter((targetId) => targetIdToIndex.has(targetId))
+      .map((targetId) => targetIdToIndex.get(targetId)!),
+    direction,
+  });
+  return Array.from(order, (index) => indexToTargetId[index]);
+}
+
+/**
+ * One-pass upper bound on every target's transitive dependent count, by index: the number
+ * of dependent paths, capped at the target count. Exact for trees; diamonds overstate it.
+ * Targets on or downstream of a cycle get the cap.
+ */
+function boundDependentCounts({
+  targetIds,
+  dependentOffsets,
+  dependentIndices,
+}: IndexedDag) {
+  const targetCount = targetIds.length;
+
+  // Kahn's algorithm from targets without dependencies, so dependents come after them
+  const inDegrees = new Uint32Array(targetCount);
+  for (const index of dependentIndices) {
+    inDegrees[index]++;
+  }
+  const order = new Uint32Array(targetCount);
+  let tail = 0;
+  for (let index = 0; index < targetCount; index++) {
+    if (inDegrees[index] === 0) {
+      order[tail++] = index;
+    }
+  }
+  for (let head = 0; head < tail; head++) {
+    const index = order[head];
+    for (
+      let i = dependentOffsets[index];
+      i < dependentOffsets[index + 1];
+      i++
+    ) {
+      if (--inDegrees[dependentIndices[i]] === 0) {
+        order[tail++] = dependentIndices[i];
+      }
+    }
+  }
+
+  const bounds = new Float64Array(targetCount).fill(targetCount);
+  // Dependents first, so each dependent's bound is final when it is summed
+  for (let position = tail - 1; position >= 0; position--) {
+    const index = order[position];
+    let bound = 0;
+    for (
+      let i = dependentOffsets[index];
+      i < dependentOffsets[index + 1];
+      i++
+    ) {
+      bound += 1 + bounds[dependentIndices[i]];
+    }
+    bounds[index] = Math.min(bound, targetCount);
+  }
+  return bounds;
+}
+
+function countDependents(hydratedDag: HydratedDag, targetId: string) {
+  if (!hydratedDag.targetIdToName.has(targetId)) {
+    return 0;
+  }
+  return traverseFrom(hydratedDag, [targetId], "dependents").length - 1;
+}
+
+/**
+ * Compares two full-dag payloads, e.g. the baselines before and after main moved.
+ * Reports added and removed targets and edges (declared on either side), targets whose
+ * name changed, and how the transitive dependent count changed for up to topTargets of
+ * the most-connected targets, to spot an edge that suddenly pulls much of the repo
+ * into one merge zone.
+ * Only targets a change can affect are candidates: changed targets and everything upstream
+ * of a changed edge. Changes are ranked by exact count; candidates are counted in order of
+ * a one-pass upper bound, stopping once no remaining candidate can reach the top.
+ */
+export function diffCachedBuildTargets({
+  before,
+  after,
+  topTargets = 10,
+}: {
+  before: CachedBuildTargets;
+  after: CachedBuildTargets;
+  topTargets?: number;
+}): CachedBuildTargetsDiff {
+  const beforeDag = hydrate(before);
+  const afterDag = hydrate(after);
+
+  const beforeEdges = collectEdges(beforeDag);
+  const afterEdges = collectEdges(afterDag);
+
+  const diff = {
+    addedTargetIds: missingKeys(
+      afterDag.targetIdToName,
+      beforeDag.targetIdToName
+    ),
+    removedTargetIds: missingKeys(
+      beforeDag.targetIdToName,
+      afterDag.targetIdToName
+    ),
+    addedEdges: missingKeys(afterEdges, beforeEdges).map((key) =>
+      afterEdges.get(key)!
+    ),
+    removedEdges: missingKeys(beforeEdges, afterEdges).map((key) =>
+      beforeEdges.get(key)!
+    ),
+  };
+
+  const renamedTargets: CachedBuildTargetsDiff["renamedTargets"] = [];
+  for (const targetId of [...beforeDag.targetIdToName.keys()].sort()) {
+    const oldName = beforeDag.targetIdToName.get(targetId)!;
+    const newName = afterDag.targetIdToName.get(targetId);
+    if (newName !== undefined && newName !== oldName) {
+      renamedTargets.push({ targetId, oldName, newName });
+    }
+  }
+
+  // A changed edge changes the dependent count of its dependency and everything upstream;
+  // start indices are included, so added and removed targets are candidates too
+  const changedTargetIds = [
+    ...diff.addedTargetIds,
+    ...diff.removedTargetIds,
+    ...[...diff.addedEdges, ...diff.removedEdges].map(
+      ({ dependencyId }) => dependencyId
+    ),
+  ];
+  const candidateTargetIds = new Set([
+    ...traverseFrom(beforeDag, changedTargetIds, "dependencies"),
+    ...traverseFrom(afterDag, changedTargetIds, "dependencies"),
+  ]);
+
+  const boundOf = (hydratedDag: HydratedDag) => {
+    const { targetIdToIndex } = hydratedDag.indexedDag!;
+    const bounds = boundDependentCounts(hydratedDag.indexedDag!);
+    return (targetId: string) =>
+      targetIdToIndex.has(targetId)
+        ? bounds[targetIdToIndex.get(targetId)!]
+        : 0;
+  };
+  const boundBefore = boundOf(beforeDag);
+  const boundAfter = boundOf(afterDag);
+  const boundedTargetIds = [...candidateTargetIds]
+    .filter(
+      (targetId) =>
+        afterDag.targetIdToName.has(targetId) ||
+        beforeDag.targetIdToName.has(targetId)
+    )
+    .map((targetId) => ({
+      targetId,
+      bound: Math.max(boundBefore(targetId), boundAfter(targetId)),
+    }))
+    .sort((a, b) => b.bound - a.bound || (a.targetId < b.targetId ? -1 : 1));
+
+  const connectedness = (change: DependentCountChange) =>
+    Math.max(change.before, change.after);
+  const dependentCountChanges: DependentCountChange[] = [];
+  for (const { targetId, bound } of boundedTargetIds) {
+    // Sorted by bound, so no later candidate can displace the current top either
+    if (
+      dependentCountChanges.length >= topTargets &&
+      (topTargets <= 0 ||
+        bound < connectedness(dependentCountChanges[topTargets - 1]))
+    ) {
+      break;
+    }
+    const change = {
+      targetId,
+      name:
+        afterDag.targetIdToName.get(targetId) ??
+        beforeDag.targetIdToName.get(targetId)!,
+      before: countDependents(beforeDag, targetId),
+      after: countDependents(afterDag, targetId),
+    };
+    if (change.before === change.after) {
+      continue;
+    }
+    dependentCountChanges.push(change);
+    dependentCountChanges.sort(
+      (a, b) =>
+        connectedness(b) - connectedness(a) ||
+        (a.targetId < b.targetId ? -1 : 1)
+    );
+    dependentCountChanges.splice(topTargets);
+  }
+
+  return {
+    beforeSha: before.headSha,
+    afterSha: after.headSha,
+    ...diff,
+    renamedTargets,
+    dependentCountChanges,
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { computeTransitiveTargets } from "./compute_transitive_targets";
+import {
+  exportDagAsDot,
+  exportDagAsJsonGraph,
+  exportDagAsMermaid,
+} from "./export_dag";
+import { type CachedBuildTargets } from "./schemas";
+
+const baselineTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "baseline123",
+  targetIds: [],
+  graph: [
+    {
+      target: {
+        targetId: "@monologue/utils#build",
+        targetName: "@monologue/utils",
+      },
+      dependencies: [],
+      dependents: ["@monologue/server#build"],
+      dependentKinds: { "@monologue/server#build": "runtime" },
+    },
+    {
+      target: {
+        targetId: "@monologue/server#build",
+        targetName: "@monologue/server",
+      },
+      dependencies: ["@monologue/utils#build"],
+      dependents: [],
+    },
+    {
+      target: { targetId: "docs#build", targetName: 'docs "site"' },
+      dependencies: [],
+      dependents: [],
+    },
+  ],
+};
+
+const hydratedDag = buildHydratedDag({
+  baselineTargets,
+  additionalTargets: [],
+});
+const targets = computeTransitiveTargets({
+  directPackageNames: ["@monologue/utils"],
+  hydratedDag,
+});
+
+describe("exportDagAsJsonGraph", () => {
+  [
+    {
+      desc: "should export every named target when no targets are given",
+      params: {},
+      expected: {
+        nodes: [
+          {
+            id: "@monologue/server#build",
+            name: "@monologue/server",
+            label: "@monologue/server#build",
+            direct: false,
+          },
+          {
+            id: "@monologue/utils#build",
+            name: "@monologue/utils",
+            label: "@monologue/utils#build",
+            direct: false,
+          },
+          {
+            id: "docs#build",
+            name: 'docs "site"',
+            label: "docs#build",
+            direct: false,
+          },
+        ],
+        edges: [
+          {
+            source: "@monologue/utils#build",
+            target: "@monologue/server#build",
+            kinds: ["runtime"],
+          },
+        ],
+      },
+    },
+    {
+      desc: "should export the subgraph induced by the given targets, labelled by name",
+      params: { targets, label: "name" as const },
+      expected: {
+        nodes: [
+          {
+            id: "@monologue/server#build",
+            name: "@monologue/server",
+            label: "@monologue/server",
+            direct: false,
+          },
+          {
+            id: "@monologue/utils#build",
+            name: "@monologue/utils",
+            label: "@monologue/utils",
+            direct: true,
+          },
+        ],
+        edges: [
+          {
+            source: "@monologue/utils#build",
+            target: "@monologue/server#build",
+            kinds: ["runtime"],
+          },
+        ],
+      },
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(exportDagAsJsonGraph({ hydratedDag, ...tc.params })).toEqual(
+        tc.expected
+      );
+    });
+  });
+});
+
+describe("exportDagAsDot", () => {
+  it("should render nodes, edges and highlighted direct targets", () => {
+    expect(exportDagAsDot({ hydratedDag, targets })).toBe(
+      [
+        "digraph {",
+        "  rankdir=LR;",
+        '  "@monologue/server#build" [label="@monologue/server#build"];',
+        '  "@monologue/utils#build" [label="@monologue/utils#build", style=filled, fillcolor="#fde68a"];',
+        '  "@monologue/utils#build" -> "@monologue/server#build";',
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("should escape quotes in labels", () => {
+    expect(exportDagAsDot({ hydratedDag, label: "name" })).toContain(
+      '  "docs#build" [label="docs \\"site\\""];'
+    );
+  });
+});
+
+describe("exportDagAsMermaid", () => {
+  it("should render nodes, edges and highlighted direct targets", () => {
+    expect(exportDagAsMermaid({ hydratedDag, targets, label: "name" })).toBe(
+      [
+        "flowchart LR",
+        '  n0["@monologue/server"]',
+        '  n1["@monologue/utils"]',
+        "  n1 --> n0",
+        "  classDef direct fill:#fde68a",
+        "  class n1 direct",
+      ].join("\n")
+    );
+  });
+
+  it("should escape # and quotes in labels", () => {
+    expect(exportDagAsMermaid({ hydratedDag })).toContain(
+      '  n2["docs#35;build"]'
+    );
+    expect(exportDagAsMermaid({ hydratedDag, label: "name" })).toContain(
+      '  n2["docs #quot;site#quot;"]'
+    );
+  });
+});
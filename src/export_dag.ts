@@ -0,0 +1,165 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { type ComputedTarget } from "./compute_transitive_targets";
+import { type EdgeKind } from "./schemas";
+
+export type ExportDagParams = {
+  hydratedDag: HydratedDag;
+  // Restricts the export to the subgraph induced by these targets, e.g. the result of
+  // computeTransitiveTargets; defaults to every named target in the DAG
+  targets?: Iterable<ComputedTarget>;
+  // Node label: the target ID (default) or the target name
+  label?: "id" | "name";
+};
+
+export type JsonGraphNode = {
+  id: string;
+  name: string;
+  label: string;
+  direct: boolean;
+};
+
+export type JsonGraphEdge = {
+  // Edges point from dependency to dependent, the direction changes propagate
+  source: string;
+  target: string;
+  // Only present for edges declared with a kind
+  kinds?: EdgeKind[];
+};
+
+export type JsonGraph = {
+  nodes: JsonGraphNode[];
+  edges: JsonGraphEdge[];
+};
+
+const DIRECT_FILL = "#fde68a";
+
+/**
+ * Nodes sorted by ID and edges between them (declared on either side) sorted by endpoints
+ */
+function collectSubgraph({
+  hydratedDag,
+  targets,
+  label = "id",
+}: ExportDagParams): JsonGraph {
+  const {
+    targetIdToDependentIds,
+    targetIdToDependencyIds,
+    targetIdToName,
+    targetIdToDependentKinds,
+  } = hydratedDag;
+
+  const targetIdToNode = new Map<string, JsonGraphNode>();
+  const addNode = (id: string, name: string, direct: boolean) => {
+    targetIdToNode.set(id, {
+      id,
+      name,
+      label: label === "name" ? name : id,
+      direct,
+    });
+  };
+  if (targets) {
+    for (const { id, name, direct } of targets) {
+      addNode(id, name, direct);
+    }
+  } else {
+    for (const [id, name] of targetIdToName) {
+      addNode(id, name, false);
+    }
+  }
+
+  const edges = new Map<string, JsonGraphEdge>();
+  const addEdge = (source: string, target: string) => {
+    if (!targetIdToNode.has(source) || !targetIdToNode.has(target)) {
+      return;
+    }
+    const kinds = targetIdToDependentKinds.get(source)?.get(target);
+    edges.set(JSON.stringify([source, target]), {
+      source,
+      target,
+      ...(kinds && { kinds: [...kinds].sort() }),
+    });
+  };
+  for (const [dependencyId, dependentIds] of targetIdToDependentIds) {
+    for (const dependentId of dependentIds) {
+      addEdge(dependencyId, dependentId);
+    }
+  }
+  for (const [dependentId, dependencyIds] of targetIdToDependencyIds) {
+    for (const dependencyId of dependencyIds) {
+      addEdge(dependencyId, dependentId);
+    }
+  }
+
+  return {
+    nodes: [...targetIdToNode.keys()]
+      .sort()
+      .map((id) => targetIdToNode.get(id)!),
+    edges: [...edges.keys()].sort().map((key) => edges.get(key)!),
+  };
+}
+
+function quoteDot(value: string) {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Mermaid entity codes; "#" first so the codes themselves aren't escaped
+function escapeMermaid(value: string) {
+  return value.replace(/#/g, "#35;").replace(/"/g, "#quot;");
+}
+
+/**
+ * Nodes and edges of the (sub)graph as a plain JSON-serializable document.
+ * Edges point from dependency to dependent.
+ */
+export function exportDagAsJsonGraph(params: ExportDagParams): JsonGraph {
+  return collectSubgraph(params);
+}
+
+/**
+ * Graphviz DOT digraph of the (sub)graph, with edges from dependency to dependent and
+ * direct targets filled. Render with e.g. `dot -Tsvg`.
+ */
+export function exportDagAsDot(params: ExportDagParams) {
+  const { nodes, edges } = collectSubgraph(params);
+  const lines = ["digraph {", "  rankdir=LR;"];
+  for (const { id, label, direct } of nodes) {
+    const style = direct
+      ? `, style=filled, fillcolor=${quoteDot(DIRECT_FILL)}`
+      : "";
+    lines.push(`  ${quoteDot(id)} [label=${quoteDot(label)}${style}];`);
+  }
+  for (const { source, target } of edges) {
+    lines.push(`  ${quoteDot(source)} -> ${quoteDot(target)};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Mermaid flowchart of the (sub)graph, with edges from dependency to dependent and direct
+ * targets in the `direct` class. Target IDs aren't valid Mermaid node IDs, so nodes are
+ * numbered in ID order.
+ */
+export function exportDagAsMermaid(params: ExportDagParams) {
+  const { nodes, edges } = collectSubgraph(params);
+  const targetIdToNodeId = new Map(
+    nodes.map(({ id }, index) => [id, `n${index}`])
+  );
+  const lines = ["flowchart LR"];
+  for (const { id, label } of nodes) {
+    lines.push(`  ${targetIdToNodeId.get(id)}["${escapeMermaid(label)}"]`);
+  }
+  for (const { source, target } of edges) {
+    lines.push(
+      `  ${targetIdToNodeId.get(source)} --> ${targetIdToNodeId.get(target)}`
+    );
+  }
+  const directNodeIds = nodes
+    .filter(({ direct }) => direct)
+    .map(({ id }) => targetIdToNodeId.get(id));
+  if (directNodeIds.length > 0) {
+    lines.push(`  classDef direct fill:${DIRECT_FILL}`);
+    lines.push(`  class ${directNodeIds.join(",")} direct`);
+  }
+  return lines.join("\n");
+}
@@ -1,11 +1,15 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import type { StorageClient } from "./types";
 import {
+  CachedTargetsFetchFailedError,
   CachedTargetsNotFoundError,
   InvalidCachedTargetsError,
   FailedToFetchCachedTargetsError,
+  NoAncestorCachedTargetsError,
+  UnsupportedCachedTargetsVersionError,
   getCachedTargetsForCommit,
   getCachedTargetsForCommits,
+  getNearestAncestorCachedTargets,
 } from "./get_cached_targets";
 
 describe("getCachedTargetsForCommit", () => {
@@ -37,9 +41,9 @@ describe("getCachedTargetsForCommit", () => {
       expectedError: CachedTargetsNotFoundError,
     },
     {
-      desc: "should throw error when cached data is invalid JSON",
+      desc: "should throw InvalidCachedTargetsError when cached data is invalid JSON",
       cacheData: "invalid json",
-      expectedError: Error,
+      expectedError: InvalidCachedTargetsError,
     },
     {
       desc: "should throw InvalidCachedTargetsError when cached data fails schema validation",
@@ -51,6 +55,18 @@ describe("getCachedTargetsForCommit", () => {
       },
       expectedError: InvalidCachedTargetsError,
     },
+    {
+      desc: "should throw UnsupportedCachedTargetsVersionError when cached data is too new",
+      cacheData: {
+        version: 99,
+        mode: "filtered",
+        baseSha: "base123",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+      },
+      expectedError: UnsupportedCachedTargetsVersionError,
+    },
   ].forEach((tc) => {
     it(tc.desc, async () => {
       const storageClient: StorageClient = {
@@ -85,6 +101,28 @@ describe("getCachedTargetsForCommit", () => {
     });
   });
 
+  it("should migrate v2 payloads to the current version", async () => {
+    const storageClient: StorageClient = {
+      getObjectOrNull: async () => ({
+        data: JSON.stringify({
+          version: 2,
+          mode: "full-dag",
+          headSha: "abc123",
+          targetIds: [],
+          graph: [],
+        }),
+      }),
+    };
+
+    const result = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient,
+    });
+
+    expect(result.version).toBe(3);
+  });
+
   it("should use custom keyGenerator when provided", async () => {
     const cacheData = {
       version: 2,
@@ -113,6 +151,101 @@ describe("getCachedTargetsForCommit", () => {
   });
 });
 
+describe("getCachedTargetsForCommit retries and timeouts", () => {
+  const cacheData = JSON.stringify({
+    version: 3,
+    mode: "full-dag",
+    headSha: "abc123",
+    targetIds: ["@monologue/server"],
+    graph: [],
+  });
+
+  it("should retry transient storage errors", async () => {
+    const getObjectOrNull = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockResolvedValueOnce({ data: cacheData });
+
+    const result = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient: { getObjectOrNull },
+      retryDelayMs: 0,
+    });
+
+    expect(result.targetIds).toEqual(["@monologue/server"]);
+    expect(getObjectOrNull).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw CachedTargetsFetchFailedError with the cause once retries run out", async () => {
+    const cause = new Error("ECONNRESET");
+    const getObjectOrNull = vi.fn().mockRejectedValue(cause);
+
+    const error = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient: { getObjectOrNull },
+      retries: 1,
+      retryDelayMs: 0,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(CachedTargetsFetchFailedError);
+    expect(error.cause).toBe(cause);
+    expect(getObjectOrNull).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry missing payloads", async () => {
+    const getObjectOrNull = vi.fn().mockResolvedValue(null);
+
+    await expect(
+      getCachedTargetsForCommit({
+        commitSha: "abc123",
+        kind: "full",
+        storageClient: { getObjectOrNull },
+      })
+    ).rejects.toThrow(CachedTargetsNotFoundError);
+    expect(getObjectOrNull).toHaveBeenCalledTimes(1);
+  });
+
+  it("should time out requests that ignore the abort signal", async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const storageClient: StorageClient = {
+      getObjectOrNull: (_key, options) => {
+        signals.push(options?.signal);
+        return new Promise(() => {});
+      },
+    };
+
+    await expect(
+      getCachedTargetsForCommit({
+        commitSha: "abc123",
+        kind: "full",
+        storageClient,
+        retries: 0,
+        timeoutMs: 10,
+      })
+    ).rejects.toThrow(CachedTargetsFetchFailedError);
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it("should reject with the caller's abort reason without retrying", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const getObjectOrNull = vi.fn(() => new Promise<null>(() => {}));
+
+    const result = getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient: { getObjectOrNull },
+      signal: controller.signal,
+    });
+    controller.abort(reason);
+
+    await expect(result).rejects.toBe(reason);
+    expect(getObjectOrNull).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe("getCachedTargetsForCommits", () => {
   it("should fetch multiple commits successfully", async () => {
     const cache: Record<string, any> = {
@@ -166,6 +299,53 @@ describe("getCachedTargetsForCommits", () => {
     ).rejects.toThrow(FailedToFetchCachedTargetsError);
   });
 
+  it("should attach each SHA's error to FailedToFetchCachedTargetsError", async () => {
+    const error = await getCachedTargetsForCommits({
+      commitShas: ["sha1"],
+      kind: "partial",
+      storageClient: { getObjectOrNull: async () => null },
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(FailedToFetchCachedTargetsError);
+    expect(error.failedShas).toEqual(["sha1"]);
+    expect(error.errors.get("sha1")).toBeInstanceOf(CachedTargetsNotFoundError);
+  });
+
+  it("should return successes and typed errors with allowPartial", async () => {
+    const cache: Record<string, string> = {
+      "commit-targets/partial-sha1.json": JSON.stringify({
+        version: 3,
+        mode: "filtered",
+        baseSha: "base",
+        headSha: "sha1",
+        targetIds: ["@monologue/pkg1"],
+        graph: [],
+      }),
+      "commit-targets/partial-sha2.json": "invalid json",
+    };
+    const storageClient: StorageClient = {
+      getObjectOrNull: async (key: string) => {
+        if (key === "commit-targets/partial-sha4.json") {
+          throw new Error("ECONNRESET");
+        }
+        return cache[key] ? { data: cache[key] } : null;
+      },
+    };
+
+    const { targets, errors } = await getCachedTargetsForCommits({
+      commitShas: ["sha1", "sha2", "sha3", "sha4"],
+      kind: "partial",
+      storageClient,
+      retryDelayMs: 0,
+      allowPartial: true,
+    });
+
+    expect([...targets.keys()]).toEqual(["sha1"]);
+    expect(errors.get("sha2")).toBeInstanceOf(InvalidCachedTargetsError);
+    expect(errors.get("sha3")).toBeInstanceOf(CachedTargetsNotFoundError);
+    expect(errors.get("sha4")).toBeInstanceOf(CachedTargetsFetchFailedError);
+  });
+
   it("should respect batchSize parameter", async () => {
     const cache: Record<string, any> = {
       "commit-targets/partial-sha1.json": {
@@ -224,4 +404,101 @@ describe("getCachedTargetsForCommits", () => {
     expect(callCount).toBe(3);
     expect(maxConcurrentCalls).toBeLessThanOrEqual(2);
   });
-});
\ No newline at end of file
+});
+describe("getNearestAncestorCachedTargets", () => {
+  const fullDag = (headSha: string) => ({
+    version: 3,
+    mode: "full-dag",
+    headSha,
+    targetIds: [],
+    graph: [],
+  });
+  const storageClient: StorageClient = {
+    getObjectOrNull: async (key: string) => {
+      const cache: Record<string, unknown> = {
+        "commit-targets/full-sha1.json": fullDag("sha1"),
+        "commit-targets/full-sha3.json": fullDag("sha3"),
+        // Mislabelled upload, skipped
+        "commit-targets/full-sha2.json": {
+          version: 3,
+          mode: "filtered",
+          baseSha: "sha3",
+          headSha: "sha2",
+          targetIds: [],
+          graph: [],
+        },
+      };
+      const data = cache[key];
+      return data ? { data: JSON.stringify(data) } : null;
+    },
+  };
+
+  [
+    {
+      desc: "should return the exact commit when it is available",
+      ancestorShas: ["sha1", "sha0"] as [string, ...string[]],
+      expectedSha: "sha1",
+      expectedDistance: 0,
+    },
+    {
+      desc: "should fall back to the nearest ancestor with a full-dag payload",
+      ancestorShas: ["sha0", "sha2", "sha3", "sha1"] as [string, ...string[]],
+      expectedSha: "sha3",
+      expectedDistance: 2,
+    },
+    {
+      desc: "should throw when no ancestor within maxDistance is available",
+      ancestorShas: ["sha0", "sha2", "sha3"] as [string, ...string[]],
+      maxDistance: 1,
+      expectedError: NoAncestorCachedTargetsError,
+    },
+  ].forEach((tc) => {
+    it(tc.desc, async () => {
+      const onStaleBaseline = vi.fn();
+      const result = getNearestAncestorCachedTargets({
+        ancestorShas: tc.ancestorShas,
+        storageClient,
+        maxDistance: tc.maxDistance,
+        onStaleBaseline,
+      });
+
+      if (tc.expectedError) {
+        await expect(result).rejects.toThrow(tc.expectedError);
+        return;
+      }
+      const { cachedTargets, commitSha, distance } = await result;
+      expect(cachedTargets.headSha).toBe(tc.expectedSha);
+      expect(commitSha).toBe(tc.expectedSha);
+      expect(distance).toBe(tc.expectedDistance);
+      expect(onStaleBaseline).toHaveBeenCalledTimes(
+        tc.expectedDistance > 0 ? 1 : 0
+      );
+    });
+  });
+
+  it("should reject a negative maxDistance", async () => {
+    await expect(
+      getNearestAncestorCachedTargets({
+        ancestorShas: ["sha1"],
+        storageClient,
+        maxDistance: -1,
+      })
+    ).rejects.toThrow("maxDistance must be a non-negative integer, got -1");
+  });
+
+  it("should report stale baselines", async () => {
+    const onStaleBaseline = vi.fn();
+
+    await getNearestAncestorCachedTargets({
+      ancestorShas: ["sha0", "sha1"],
+      storageClient,
+      onStaleBaseline,
+    });
+
+    expect(onStaleBaseline).toHaveBeenCalledWith({
+      requestedSha: "sha0",
+      commitSha: "sha1",
+      distance: 1,
+    });
+  });
+});
@@ -1,7 +1,18 @@
-import { type CachedBuildTargets, CachedBuildTargetsSchema } from "./schemas";
+import {
+  decompressPayload,
+  getCompressionKeySuffix,
+  type PayloadCompression,
+} from "./compression";
+import {
+  SUPPORTED_CACHED_BUILD_TARGETS_VERSIONS,
+  safeParseCachedBuildTargets,
+} from "./schema_registry";
+import { type CachedBuildTargets } from "./schemas";
 import type { NonEmptyArray, StorageClient } from "./types";
 
 const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 100;
 
 function chunk<T>(array: T[], size: number): T[][] {
   const chunks: T[][] = [];
@@ -28,8 +39,45 @@ export class InvalidCachedTargetsError extends Error {
   }
 }
 
+export class UnsupportedCachedTargetsVersionError extends Error {
+  constructor(
+    public commitSha: string,
+    public version: number
+  ) {
+    super(
+      `Unsupported cached build targets version ${version} for commit ${commitSha} (supported: ${SUPPORTED_CACHED_BUILD_TARGETS_VERSIONS.join(", ")})`
+    );
+    this.name = "UnsupportedCachedTargetsVersionError";
+  }
+}
+
+export class CachedTargetsFetchFailedError extends Error {
+  constructor(
+    public commitSha: string,
+    public cause: unknown
+  ) {
+    super(
+      `Storage request for cached build targets failed for commit ${commitSha}`
+    );
+    this.name = "CachedTargetsFetchFailedError";
+  }
+}
+
+/**
+ * Per-commit failure from getCachedTargetsForCommit
+ */
+export type CachedTargetsError =
+  | CachedTargetsNotFoundError
+  | InvalidCachedTargetsError
+  | UnsupportedCachedTargetsVersionError
+  | CachedTargetsFetchFailedError;
+
 export class FailedToFetchCachedTargetsError extends Error {
-  constructor(public failedShas: string[]) {
+  constructor(
+    public failedShas: string[],
+    // The error for each failed SHA
+    public errors: Map<string, CachedTargetsError> = new Map()
+  ) {
     super(
       `Failed to fetch cached build targets for commits ${failedShas.map((sha) => sha.slice(0, 7)).join(", ")}`
     );
@@ -37,75 +85,236 @@ export class FailedToFetchCachedTargetsError extends Error {
   }
 }
 
-export function getStorageKey(commitSha: string, kind: "full" | "partial") {
-  return `commit-targets/${kind}-${commitSha}.json`;
+export class NoAncestorCachedTargetsError extends Error {
+  constructor(public searchedShas: string[]) {
+    super(
+      `No full cached build targets found within ${searchedShas.length} ancestor commits of ${searchedShas[0]}`
+    );
+    this.name = "NoAncestorCachedTargetsError";
+  }
 }
 
+/**
+ * Default storage key. Pass `compression` for the compressed-key variant, e.g.
+ * `commit-targets/full-<sha>.json.gz`.
+ */
+export function getStorageKey(
+  commitSha: string,
+  kind: "full" | "partial",
+  { compression }: { compression?: PayloadCompression } = {}
+) {
+  const suffix = compression ? getCompressionKeySuffix(compression) : "";
+  return `commit-targets/${kind}-${commitSha}.json${suffix}`;
+}
+
+// Module-level so caching storage clients can memoize its result per key
+function parseCachedTargetsData(data: Buffer | string, key: string) {
+  let jsonData: unknown;
+  try {
+    jsonData = JSON.parse(decompressPayload({ data, key }));
+  } catch (error) {
+    return { success: false as const, reason: "invalid" as const, error };
+  }
+  return safeParseCachedBuildTargets(jsonData);
+}
+
+// Rejects with the signal's reason once it aborts, even if the request ignores the signal
+function raceAbortSignal<T>(request: Promise<T>, signal: AbortSignal) {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    request
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+async function fetchCachedTargetsData({
+  commitSha,
+  storageKey,
+  storageClient,
+  timeoutMs,
+  signal,
+}: {
+  commitSha: string;
+  storageKey: string;
+  storageClient: StorageClient;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}) {
+  const signals = [
+    signal,
+    timeoutMs === undefined ? undefined : AbortSignal.timeout(timeoutMs),
+  ].filter((s): s is AbortSignal => s !== undefined);
+  const requestSignal =
+    signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+  try {
+    // The caching client shares requests between callers, so it doesn't get the signal
+    const request = storageClient.getParsedObjectOrNull
+      ? storageClient.getParsedObjectOrNull(storageKey, parseCachedTargetsData)
+      : storageClient
+          .getObjectOrNull(storageKey, { signal: requestSignal })
+          .then(
+            (result) =>
+              result && parseCachedTargetsData(result.data, storageKey)
+          );
+    return await (requestSignal
+      ? raceAbortSignal(request, requestSignal)
+      : request);
+  } catch (err) {
+    // Cancellation by the caller is not a storage failure
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    throw new CachedTargetsFetchFailedError(commitSha, err);
+  }
+}
+
+/**
+ * Fetches and parses the cached build targets for a commit.
+ * Storage errors and timeouts (timeoutMs per attempt) are retried up to `retries` times
+ * with exponential backoff starting at retryDelayMs, then surface as
+ * CachedTargetsFetchFailedError. Missing and invalid payloads are not retried.
+ * Aborting `signal` rejects with its reason.
+ * gzip payloads are detected by magic bytes and brotli payloads by a ".br" key. With
+ * `compression`, the compressed key variant is tried first, then the uncompressed key.
+ */
 export async function getCachedTargetsForCommit({
   commitSha,
   kind,
   storageClient,
   keyGenerator = getStorageKey,
+  retries = DEFAULT_RETRIES,
+  retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  timeoutMs,
+  signal,
+  compression,
 }: {
   commitSha: string;
   kind: "full" | "partial";
   storageClient: StorageClient;
   keyGenerator?: (commitSha: string, kind: "full" | "partial") => string;
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  compression?: PayloadCompression;
 }) {
   const storageKey = keyGenerator(commitSha, kind);
-  const result = await storageClient.getObjectOrNull(storageKey);
+  const storageKeys = compression
+    ? [storageKey + getCompressionKeySuffix(compression), storageKey]
+    : [storageKey];
 
-  if (!result) {
-    throw new CachedTargetsNotFoundError(commitSha);
+  let parseResult: ReturnType<typeof parseCachedTargetsData> | null = null;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      for (const key of storageKeys) {
+        parseResult = await fetchCachedTargetsData({
+          commitSha,
+          storageKey: key,
+          storageClient,
+          timeoutMs,
+          signal,
+        });
+        if (parseResult) {
+          break;
+        }
+      }
+      break;
+    } catch (err) {
+      if (
+        !(err instanceof CachedTargetsFetchFailedError) ||
+        attempt >= retries
+      ) {
+        throw err;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** attempt)
+      );
+    }
   }
 
-  const dataString =
-    typeof result.data === "string"
-      ? result.data
-      : result.data.toString("utf-8");
-
-  const jsonData = JSON.parse(dataString);
-  const parseResult = CachedBuildTargetsSchema.safeParse(jsonData);
+  if (!parseResult) {
+    throw new CachedTargetsNotFoundError(commitSha);
+  }
 
   if (!parseResult.success) {
+    if (parseResult.reason === "unsupported-version") {
+      throw new UnsupportedCachedTargetsVersionError(
+        commitSha,
+        parseResult.version
+      );
+    }
     throw new InvalidCachedTargetsError(commitSha, parseResult.error);
   }
 
   return parseResult.data;
 }
 
-export async function getCachedTargetsForCommits({
-  commitShas,
-  kind,
-  storageClient,
-  batchSize = DEFAULT_BATCH_SIZE,
-  keyGenerator = getStorageKey,
-}: {
+type GetCachedTargetsForCommitsParams = {
   commitShas: NonEmptyArray<string>;
   kind: "full" | "partial";
   storageClient: StorageClient;
   batchSize?: number;
   keyGenerator?: (commitSha: string, kind: "full" | "partial") => string;
-}) {
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  compression?: PayloadCompression;
+};
+
+/**
+ * Result of getCachedTargetsForCommits with allowPartial
+ */
+export type PartialCachedTargetsResult = {
+  targets: Map<string, CachedBuildTargets>;
+  errors: Map<string, CachedTargetsError>;
+};
+
+/**
+ * Fetches cached build targets for many commits, batchSize at a time, with the same
+ * retry and timeout options as getCachedTargetsForCommit.
+ * Throws FailedToFetchCachedTargetsError (carrying each SHA's error) if any commit fails,
+ * unless allowPartial is set, in which case the successes and per-SHA errors are returned.
+ */
+export async function getCachedTargetsForCommits(
+  params: GetCachedTargetsForCommitsParams & { allowPartial: true }
+): Promise<PartialCachedTargetsResult>;
+export async function getCachedTargetsForCommits(
+  params: GetCachedTargetsForCommitsParams & { allowPartial?: false }
+): Promise<Map<string, CachedBuildTargets>>;
+export async function getCachedTargetsForCommits({
+  commitShas,
+  batchSize = DEFAULT_BATCH_SIZE,
+  allowPartial = false,
+  signal,
+  ...fetchParams
+}: GetCachedTargetsForCommitsParams & { allowPartial?: boolean }) {
   const chunkedInputs = chunk(commitShas, batchSize);
   const results: PromiseSettledResult<CachedBuildTargets>[] = [];
 
   for (const commitShaChunk of chunkedInputs) {
     const chunkResults = await Promise.allSettled(
       commitShaChunk.map((commitSha) =>
-        getCachedTargetsForCommit({
-          commitSha,
-          kind,
-          storageClient,
-          keyGenerator,
-        })
+        getCachedTargetsForCommit({ commitSha, signal, ...fetchParams })
       )
     );
     results.push(...chunkResults);
   }
 
+  // Cancellation aborts the whole batch rather than being reported per SHA
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+
   const targetMap = new Map<string, CachedBuildTargets>();
-  const failedShas: string[] = [];
+  const errors = new Map<string, CachedTargetsError>();
 
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
@@ -114,13 +323,80 @@ export async function getCachedTargetsForCommits({
     if (result.status === "fulfilled") {
       targetMap.set(commitSha, result.value);
     } else {
-      failedShas.push(commitSha);
+      errors.set(commitSha, result.reason);
     }
   }
 
-  if (failedShas.length > 0) {
-    throw new FailedToFetchCachedTargetsError(failedShas);
+  if (allowPartial) {
+    return { targets: targetMap, errors };
+  }
+
+  if (errors.size > 0) {
+    throw new FailedToFetchCachedTargetsError([...errors.keys()], errors);
   }
 
   return targetMap;
 }
+
+/**
+ * Returns the first full-dag payload among ancestorShas, ordered nearest first (e.g. from
+ * `git rev-list --max-count=N <sha>`), so a queue run can proceed before the exact
+ * baseline has been uploaded. `distance` is the index of the SHA used: 0 for the first
+ * candidate. Only the first maxDistance + 1 candidates are tried; maxDistance must be a
+ * non-negative integer. onStaleBaseline is called whenever the payload came from an older
+ * commit than the first candidate.
+ */
+export async function getNearestAncestorCachedTargets({
+  ancestorShas,
+  storageClient,
+  maxDistance = ancestorShas.length - 1,
+  onStaleBaseline,
+  keyGenerator = getStorageKey,
+  compression,
+}: {
+  ancestorShas: NonEmptyArray<string>;
+  storageClient: StorageClient;
+  maxDistance?: number;
+  onStaleBaseline?: (baseline: {
+    requestedSha: string;
+    commitSha: string;
+    distance: number;
+  }) => void;
+  keyGenerator?: (commitSha: string, kind: "full" | "partial") => string;
+  compression?: PayloadCompression;
+}) {
+  if (!Number.isInteger(maxDistance) || maxDistance < 0) {
+    throw new Error(
+      `maxDistance must be a non-negative integer, got ${maxDistance}`
+    );
+  }
+  const candidateShas = ancestorShas.slice(0, maxDistance + 1);
+
+  for (const [distance, commitSha] of candidateShas.entries()) {
+    let cachedTargets: CachedBuildTargets;
+    try {
+      cachedTargets = await getCachedTargetsForCommit({
+        commitSha,
+        kind: "full",
+        storageClient,
+        keyGenerator,
+        compression,
+      });
+    } catch (err) {
+      if (err instanceof CachedTargetsNotFoundError) {
+        continue;
+      }
+      throw err;
+    }
+
+    if (cachedTargets.mode !== "full-dag") {
+      continue;
+    }
+    if (distance > 0) {
+      onStaleBaseline?.({ requestedSha: ancestorShas[0], commitSha, distance });
+    }
+    return { cachedTargets, commitSha, distance };
+  }
+
+  throw new NoAncestorCachedTargetsError(candidateShas);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp, matchesGlobs } from "./glob";
+
+describe("globToRegExp", () => {
+  [
+    { glob: "packages/*", value: "packages/utils", expected: true },
+    { glob: "packages/*", value: "packages/utils/src", expected: false },
+    { glob: "packages/**", value: "packages/utils/src", expected: true },
+    { glob: "packages/**", value: "packages", expected: true },
+    { glob: "**/utils", value: "utils", expected: true },
+    { glob: "**/utils", value: "packages/utils", expected: true },
+    { glob: "**/utils", value: "packages/myutils", expected: false },
+    { glob: "@myorg/infra-*", value: "@myorg/infra-db", expected: true },
+    { glob: "*#build", value: "@myorg/web#build", expected: false },
+    { glob: "**#build", value: "@myorg/web#build", expected: true },
+    { glob: "pkg-?", value: "pkg-a", expected: true },
+    { glob: "pkg.json", value: "pkgxjson", expected: false },
+  ].forEach((tc) => {
+    it(`should ${tc.expected ? "" : "not "}match ${tc.value} with ${tc.glob}`, () => {
+      expect(globToRegExp(tc.glob).test(tc.value)).toBe(tc.expected);
+    });
+  });
+});
+
+describe("globToRegExp with matchSlash", () => {
+  it("should let * and ? match slashes", () => {
+    expect(
+      globToRegExp("*#build", { matchSlash: true }).test("@myorg/web#build")
+    ).toBe(true);
+    expect(
+      globToRegExp("@myorg?web", { matchSlash: true }).test("@myorg/web")
+    ).toBe(true);
+  });
+});
+
+describe("matchesGlobs", () => {
+  it("should honor negated globs", () => {
+    const globs = ["apps/*", "!apps/legacy"];
+
+    expect(matchesGlobs("apps/web", globs)).toBe(true);
+    expect(matchesGlobs("apps/legacy", globs)).toBe(false);
+    expect(matchesGlobs("packages/utils", globs)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ * Supports `*` (anything except `/`), `**` (anything, including `/`) and `?` (one character
+ * except `/`). A trailing `/**` also matches the directory itself.
+ * With matchSlash, `*` and `?` also match `/`, for globs over names rather than paths.
+ */
+export function globToRegExp(
+  glob: string,
+  { matchSlash = false }: { matchSlash?: boolean } = {}
+) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        // "**/" also matches zero directories
+        source += "(?:.*/)?";
+        i += 2;
+      } else if (source.endsWith("/") && i + 2 === glob.length) {
+        // "dir/**" also matches "dir" itself
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+        i++;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += matchSlash ? ".*" : "[^/]*";
+    } else if (char === "?") {
+      source += matchSlash ? "." : "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns whether value matches any of the globs, honoring `!`-prefixed negations
+ * (a later pattern overrides an earlier one, as in workspace globs)
+ */
+export function matchesGlobs(value: string, globs: string[]) {
+  let matched = false;
+  for (const glob of globs) {
+    if (glob.startsWith("!")) {
+      if (matched && globToRegExp(glob.slice(1)).test(value)) {
+        matched = false;
+      }
+    } else if (!matched && globToRegExp(glob).test(value)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import {
+  InvalidHydratedDagSnapshotError,
+  restoreHydratedDag,
+  serializeHydratedDag,
+} from "./hydrated_dag_snapshot";
+import { type CachedBuildTargets } from "./schemas";
+
+const baselineTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "base123",
+  targetIds: [],
+  graph: [
+    {
+      target: {
+        targetId: "@monologue/utils#build",
+        targetName: "@monologue/utils",
+        packageRoot: "packages/utils",
+      },
+      dependencies: [],
+      dependents: ["@monologue/server#build", "@monologue/ghost#build"],
+      dependentKinds: { "@monologue/server#build": "runtime" },
+    },
+    {
+      target: { targetId: "@monologue/server#build" },
+      dependencies: ["@monologue/utils#build"],
+      dependents: [],
+      dependencyKinds: { "@monologue/utils#build": "type" },
+    },
+  ],
+};
+
+// Renames utils, so nameToTargetIds keeps both names
+const prTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "filtered",
+  baseSha: "base123",
+  headSha: "pr123",
+  targetIds: [],
+  graph: [
+    {
+      target: {
+        targetId: "@monologue/utils#build",
+        targetName: "@monologue/shared",
+      },
+      dependencies: [],
+      dependents: [],
+    },
+  ],
+};
+
+const hydratedDag = buildHydratedDag({
+  baselineTargets,
+  additionalTargets: [prTargets],
+});
+const snapshot = serializeHydratedDag({ hydratedDag, baselineSha: "base123" });
+
+// Rewrites header fields; the body and its checksum are left as they were
+function withHeader(update: (header: Record<string, unknown>) => void) {
+  const [headerLine, ...lines] = snapshot.split("\n");
+  const header = JSON.parse(headerLine);
+  update(header);
+  return [JSON.stringify(header), ...lines].join("\n");
+}
+
+describe("serializeHydratedDag / restoreHydratedDag", () => {
+  it("should round-trip every map", () => {
+    const restored = restoreHydratedDag({ snapshot });
+
+    expect(restored.hydratedDag).toEqual(hydratedDag);
+    expect(restored.baselineSha).toBe("base123");
+    expect(restored.schemaVersion).toBe(3);
+  });
+
+  it("should accept buffers and build an indexed DAG on request", () => {
+    const restored = restoreHydratedDag({
+      snapshot: Buffer.from(snapshot),
+      indexed: true,
+    });
+
+    expect(restored.hydratedDag.indexedDag?.targetIds.length).toBe(3);
+  });
+
+  [
+    {
+      desc: "should reject snapshots that aren't snapshots",
+      snapshot: "{}",
+      expectedReason: "unknown format",
+    },
+    {
+      desc: "should reject unsupported snapshot versions",
+      snapshot: withHeader((header) => (header.version = 99)),
+      expectedReason: "unsupported snapshot version 99 (supported: 4)",
+    },
+    {
+      desc: "should reject snapshots built from another schema version",
+      snapshot: withHeader((header) => (header.schemaVersion = 2)),
+      expectedReason: "built from schema version 2, expected 3",
+    },
+    {
+      desc: "should reject truncated snapshots",
+      snapshot: snapshot.slice(0, snapshot.lastIndexOf("\n")),
+      expectedReason: "checksum mismatch",
+    },
+    {
+      desc: "should reject corrupted snapshots",
+      snapshot: snapshot.replace("@monologue/server", "@monologue/serveR"),
+      expectedReason: "checksum mismatch",
+    },
+    {
+      desc: "should reject target count mismatches",
+      snapshot: withHeader((header) => (header.targetCount = 2)),
+      expectedReason: "expected 2 targets, found 3",
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(() => restoreHydratedDag({ snapshot: tc.snapshot })).toThrow(
+        new InvalidHydratedDagSnapshotError(tc.expectedReason)
+      );
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { createHash } from "crypto";
+import { type HydratedDag } from "./build_hydrated_dag";
+import { buildIndexedDag } from "./indexed_dag";
+import {
+  CACHED_BUILD_TARGETS_VERSION,
+  type EdgeKind,
+  EdgeKindSchema,
+} from "./schemas";
+
+export const HYDRATED_DAG_SNAPSHOT_FORMAT = "hydrated-dag-snapshot";
+export const HYDRATED_DAG_SNAPSHOT_VERSION = 4;
+
+type SnapshotHeader = {
+  format: typeof HYDRATED_DAG_SNAPSHOT_FORMAT;
+  version: number;
+  // CACHED_BUILD_TARGETS_VERSION of the payloads the DAG was built from
+  schemaVersion: number;
+  baselineSha: string;
+  targetCount: number;
+  // sha256 of every line after the header, joined with "\n"
+  checksum: string;
+};
+
+// One line per target. Edge lists hold line indices; null means the target has no entry
+// in that map, which is distinct from an empty entry.
+type SnapshotLine = [
+  targetId: string,
+  name: string | null,
+  packageRoot: string | null,
+  // Names in nameToTargetIds other than `name`, e.g. a baseline name kept after a rename
+  otherNames: string[],
+  dependentIndices: number[] | null,
+  dependencyIndices: number[] | null,
+  // [dependent line index, kinds] for each kinded edge to a dependent, or null if none
+  dependentKinds: [number, EdgeKind[]][] | null,
+  // Sources declaring the target (targetIdToSources), empty if none
+  sources: string[],
+  // [oldName, newName, sourceSha] for each rename of the target, empty if none
+  renames: [string, string, string][],
+];
+
+export class InvalidHydratedDagSnapshotError extends Error {
+  constructor(public reason: string) {
+    super(`Invalid hydrated DAG snapshot: ${reason}`);
+    this.name = "InvalidHydratedDagSnapshotError";
+  }
+}
+
+function checksum(body: string) {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Serializes a HydratedDag to newline-delimited JSON: a header line with the baseline
+ * SHA, versions and a checksum, then one line per target with target IDs interned to
+ * line indices. The indexedDag, if any, is not included.
+ */
+export function serializeHydratedDag({
+  hydratedDag,
+  baselineSha,
+}: {
+  hydratedDag: HydratedDag;
+  baselineSha: string;
+}) {
+  const {
+    targetIdToDependentIds,
+    targetIdToDependencyIds,
+    targetIdToName,
+    nameToTargetIds,
+    targetIdToPackageRoot,
+    targetIdToDependentKinds,
+    targetIdToSources,
+    targetIdToRenames,
+  } = hydratedDag;
+
+  const targetIdToIndex = new Map<string, number>();
+  const intern = (targetId: string) => {
+    if (!targetIdToIndex.has(targetId)) {
+      targetIdToIndex.set(targetId, targetIdToIndex.size);
+    }
+    return targetIdToIndex.get(targetId)!;
+  };
+  for (const targetId of targetIdToName.keys()) {
+    intern(targetId);
+  }
+  for (const adjacency of [targetIdToDependentIds, targetIdToDependencyIds]) {
+    for (const [targetId, neighborIds] of adjacency) {
+      intern(targetId);
+      for (const neighborId of neighborIds) {
+        intern(neighborId);
+      }
+    }
+  }
+  for (const targetIds of nameToTargetIds.values()) {
+    for (const targetId of targetIds) {
+      intern(targetId);
+    }
+  }
+  for (const [targetId, dependentKinds] of targetIdToDependentKinds) {
+    intern(targetId);
+    for (const dependentId of dependentKinds.keys()) {
+      intern(dependentId);
+    }
+  }
+
+  const targetIdToOtherNames = new Map<string, string[]>();
+  for (const [name, targetIds] of nameToTargetIds) {
+    for (const targetId of targetIds) {
+      if (targetIdToName.get(targetId) !== name) {
+        if (!targetIdToOtherNames.has(targetId)) {
+          targetIdToOtherNames.set(targetId, []);
+        }
+        targetIdToOtherNames.get(targetId)!.push(name);
+      }
+    }
+  }
+
+  const toIndices = (neighborIds: Set<string> | undefined) =>
+    neighborIds ? [...neighborIds].map((id) => targetIdToIndex.get(id)!) : null;
+  const toKindEntries = (
+    dependentKinds: Map<string, Set<EdgeKind>> | undefined
+  ) =>
+    dependentKinds
+      ? [...dependentKinds].map(([id, kinds]): [number, EdgeKind[]] => [
+          targetIdToIndex.get(id)!,
+          [...kinds],
+        ])
+      : null;
+
+  const lines = [...targetIdToIndex.keys()].map((targetId) =>
+    JSON.stringify([
+      targetId,
+      targetIdToName.get(targetId) ?? null,
+      targetIdToPackageRoot.get(targetId) ?? null,
+      targetIdToOtherNames.get(targetId) ?? [],
+      toIndices(targetIdToDependentIds.get(targetId)),
+      toIndices(targetIdToDependencyIds.get(targetId)),
+      toKindEntries(targetIdToDependentKinds.get(targetId)),
+      [...(targetIdToSources.get(targetId) ?? [])],
+      (targetIdToRenames.get(targetId) ?? []).map(
+        ({ oldName, newName, sourceSha }): [string, string, string] => [
+          oldName,
+          newName,
+          sourceSha,
+        ]
+      ),
+    ] satisfies SnapshotLine)
+  );
+  const body = lines.join("\n");
+
+  const header: SnapshotHeader = {
+    format: HYDRATED_DAG_SNAPSHOT_FORMAT,
+    version: HYDRATED_DAG_SNAPSHOT_VERSION,
+    schemaVersion: CACHED_BUILD_TARGETS_VERSION,
+    baselineSha,
+    targetCount: lines.length,
+    checksum: checksum(body),
+  };
+
+  return `${JSON.stringify(header)}\n${body}`;
+}
+
+function parseLine(line: string, lineNumber: number, targetCount: number) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new InvalidHydratedDagSnapshotError(`line ${lineNumber} is not JSON`);
+  }
+
+  const isIndexList = (value: unknown) =>
+    value === null ||
+    (Array.isArray(value) &&
+      value.every((i) => Number.isInteger(i) && i >= 0 && i < targetCount));
+  const isKindEntries = (value: unknown) =>
+    value === null ||
+    (Array.isArray(value) &&
+      value.every(
+        (entry) =>
+          Array.isArray(entry) &&
+          entry.length === 2 &&
+          isIndexList([entry[0]]) &&
+          Array.isArray(entry[1]) &&
+          entry[1].every((kind) => EdgeKindSchema.safeParse(kind).success)
+      ));
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 9 ||
+    typeof parsed[0] !== "string" ||
+    (parsed[1] !== null && typeof parsed[1] !== "string") ||
+    (parsed[2] !== null && typeof parsed[2] !== "string") ||
+    !Array.isArray(parsed[3]) ||
+    !parsed[3].every((name) => typeof name === "string") ||
+    !isIndexList(parsed[4]) ||
+    !isIndexList(parsed[5]) ||
+    !isKindEntries(parsed[6]) ||
+    !Array.isArray(parsed[7]) ||
+    !parsed[7].every((source) => typeof source === "string") ||
+    !Array.isArray(parsed[8]) ||
+    !parsed[8].every(
+      (rename) =>
+        Array.isArray(rename) &&
+        rename.length === 3 &&
+        rename.every((field) => typeof field === "string")
+    )
+  ) {
+    throw new InvalidHydratedDagSnapshotError(
+      `line ${lineNumber} is malformed`
+    );
+  }
+  return parsed as SnapshotLine;
+}
+
+/**
+ * Restores a HydratedDag from serializeHydratedDag output without re-running schema
+ * validation. Throws InvalidHydratedDagSnapshotError for unknown formats or versions,
+ * checksum mismatches and malformed lines, so a corrupted snapshot never yields a
+ * partial DAG. Pass `indexed` to also build an IndexedDag.
+ */
+export function restoreHydratedDag({
+  snapshot,
+  indexed = false,
+}: {
+  snapshot: Buffer | string;
+  indexed?: boolean;
+}) {
+  const text = typeof snapshot === "string" ? snapshot : snapshot.toString();
+  const headerEnd = text.indexOf("\n");
+  const headerLine = headerEnd === -1 ? text : text.slice(0, headerEnd);
+  const body = headerEnd === -1 ? "" : text.slice(headerEnd + 1);
+
+  let header: SnapshotHeader;
+  try {
+    header = JSON.parse(headerLine);
+  } catch {
+    throw new InvalidHydratedDagSnapshotError("header is not JSON");
+  }
+  if (header?.format !== HYDRATED_DAG_SNAPSHOT_FORMAT) {
+    throw new InvalidHydratedDagSnapshotError("unknown format");
+  }
+  if (header.version !== HYDRATED_DAG_SNAPSHOT_VERSION) {
+    throw new InvalidHydratedDagSnapshotError(
+      `unsupported snapshot version ${header.version} (supported: ${HYDRATED_DAG_SNAPSHOT_VERSION})`
+    );
+  }
+  if (header.schemaVersion !== CACHED_BUILD_TARGETS_VERSION) {
+    throw new InvalidHydratedDagSnapshotError(
+      `built from schema version ${header.schemaVersion}, expected ${CACHED_BUILD_TARGETS_VERSION}`
+    );
+  }
+  if (checksum(body) !== header.checksum) {
+    throw new InvalidHydratedDagSnapshotError("checksum mismatch");
+  }
+
+  const lines = body === "" ? [] : body.split("\n");
+  if (lines.length !== header.targetCount) {
+    throw new InvalidHydratedDagSnapshotError(
+      `expected ${header.targetCount} targets, found ${lines.length}`
+    );
+  }
+  const parsedLines = lines.map((line, i) =>
+    parseLine(line, i + 2, header.targetCount)
+  );
+  const targetIds = parsedLines.map(([targetId]) => targetId);
+
+  const hydratedDag: HydratedDag = {
+    targetIdToDependentIds: new Map(),
+    targetIdToDependencyIds: new Map(),
+    targetIdToName: new Map(),
+    nameToTargetIds: new Map(),
+    targetIdToPackageRoot: new Map(),
+    targetIdToDependentKinds: new Map(),
+    targetIdToSources: new Map(),
+    targetIdToRenames: new Map(),
+  };
+  const addName = (name: string, targetId: string) => {
+    if (!hydratedDag.nameToTargetIds.has(name)) {
+      hydratedDag.nameToTargetIds.set(name, new Set());
+    }
+    hydratedDag.nameToTargetIds.get(name)!.add(targetId);
+  };
+
+  for (const [
+    targetId,
+    name,
+    packageRoot,
+    otherNames,
+    dependentIndices,
+    dependencyIndices,
+    dependentKinds,
+    sources,
+    renames,
+  ] of parsedLines) {
+    if (name !== null) {
+      hydratedDag.targetIdToName.set(targetId, name);
+      addName(name, targetId);
+    }
+    for (const otherName of otherNames) {
+      addName(otherName, targetId);
+    }
+    if (packageRoot !== null) {
+      hydratedDag.targetIdToPackageRoot.set(targetId, packageRoot);
+    }
+    if (dependentIndices) {
+      hydratedDag.targetIdToDependentIds.set(
+        targetId,
+        new Set(dependentIndices.map((i) => targetIds[i]))
+      );
+    }
+    if (dependencyIndices) {
+      hydratedDag.targetIdToDependencyIds.set(
+        targetId,
+        new Set(dependencyIndices.map((i) => targetIds[i]))
+      );
+    }
+    if (sources.length > 0) {
+      hydratedDag.targetIdToSources.set(targetId, new Set(sources));
+    }
+    if (renames.length > 0) {
+      hydratedDag.targetIdToRenames.set(
+        targetId,
+        renames.map(([oldName, newName, sourceSha]) => ({
+          targetId,
+          oldName,
+          newName,
+          sourceSha,
+        }))
+      );
+    }
+    if (dependentKinds) {
+      hydratedDag.targetIdToDependentKinds.set(
+        targetId,
+        new Map(
+          dependentKinds.map(([i, kinds]) => [targetIds[i], new Set(kinds)])
+        )
+      );
+    }
+  }
+
+  if (indexed) {
+    hydratedDag.indexedDag = buildIndexedDag({ hydratedDag });
+  }
+
+  return {
+    hydratedDag,
+    baselineSha: header.baselineSha,
+    schemaVersion: header.schemaVersion,
+  };
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { BASELINE_SOURCE, buildHydratedDag } from "./build_hydrated_dag";
+import { createIncrementalHydratedDag } from "./incremental_hydrated_dag";
+import { type CachedBuildTargets, type EdgeKind } from "./schemas";
+
+const node = (
+  name: string,
+  {
+    dependencies = [],
+    dependents = [],
+    targetName = name,
+    dependencyKind,
+  }: {
+    dependencies?: string[];
+    dependents?: string[];
+    targetName?: string;
+    // Kind of every dependency edge
+    dependencyKind?: EdgeKind;
+  }
+) => ({
+  target: { targetId: `${name}#build`, targetName },
+  dependencies: dependencies.map((d) => `${d}#build`),
+  dependents: dependents.map((d) => `${d}#build`),
+  ...(dependencyKind && {
+    dependencyKinds: Object.fromEntries(
+      dependencies.map((d) => [`${d}#build`, dependencyKind])
+    ),
+  }),
+});
+
+const baselineTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "base",
+  targetIds: [],
+  graph: [
+    node("utils", { dependents: ["server", "client"] }),
+    node("server", { dependencies: ["utils"] }),
+    node("client", { dependencies: ["utils"], dependencyKind: "dev" }),
+  ],
+};
+
+const overlay = (
+  headSha: string,
+  graph: CachedBuildTargets["graph"],
+  removals: {
+    removedTargetIds?: string[];
+    removedEdges?: { dependencyId: string; dependentId: string }[];
+  } = {}
+): CachedBuildTargets => ({
+  version: 3,
+  mode: "filtered",
+  baseSha: "base",
+  headSha,
+  targetIds: [],
+  graph,
+  ...removals,
+});
+
+const overlays: Record<string, CachedBuildTargets> = {
+  // Adds a new package depending on utils
+  pr1: overlay("pr1", [
+    node("docs", { dependencies: ["utils"], dependencyKind: "type" }),
+  ]),
+  // Also depends utils → docs (with another kind), and renames server
+  pr2: overlay("pr2", [
+    node("docs", { dependencies: ["utils"], dependencyKind: "runtime" }),
+    node("server", { targetName: "api", dependencies: ["utils"] }),
+  ]),
+  // Deletes client and drops utils → server
+  pr3: overlay("pr3", [], {
+    removedTargetIds: ["client#build"],
+    removedEdges: [
+      { dependencyId: "utils#build", dependentId: "server#build" },
+    ],
+  }),
+  // Also deletes client
+  pr4: overlay("pr4", [], { removedTargetIds: ["client#build"] }),
+  // Declares utils and a new package without names
+  pr5: overlay("pr5", [
+    {
+      target: { targetId: "utils#build" },
+      dependencies: [],
+      dependents: ["server#build"],
+    },
+    { target: { targetId: "cli#build" }, dependencies: [], dependents: [] },
+  ]),
+  // Declares server twice with different names
+  pr6: overlay("pr6", [
+    node("server", { targetName: "api" }),
+    node("server", { targetName: "gateway" }),
+  ]),
+};
+
+describe("createIncrementalHydratedDag", () => {
+  [
+    { desc: "no overlays", operations: [] },
+    { desc: "one overlay", operations: ["+pr1"] },
+    { desc: "overlays sharing an edge", operations: ["+pr1", "+pr2"] },
+    {
+      desc: "removing one of two overlays sharing an edge",
+      operations: ["+pr1", "+pr2", "-pr1"],
+    },
+    { desc: "removing a rename", operations: ["+pr2", "-pr2"] },
+    { desc: "removals", operations: ["+pr3", "+pr2"] },
+    { desc: "undoing removals", operations: ["+pr3", "+pr1", "-pr3"] },
+    { desc: "removals shared by every overlay", operations: ["+pr3", "+pr4"] },
+    {
+      desc: "removals that stop being shared by every overlay",
+      operations: ["+pr3", "+pr4", "+pr1"],
+    },
+    {
+      desc: "removals that become shared by every overlay",
+      operations: ["+pr1", "+pr3", "+pr4", "-pr1"],
+    },
+    {
+      desc: "re-adding an overlay",
+      operations: ["+pr2", "+pr1", "+pr2"],
+    },
+    {
+      desc: "a rename with stale names dropped",
+      operations: ["+pr1", "+pr2"],
+      staleNames: "drop" as const,
+    },
+    { desc: "an overlay without names", operations: ["+pr5", "+pr2"] },
+    {
+      desc: "an overlay without names with stale names dropped",
+      operations: ["+pr2", "+pr5"],
+      staleNames: "drop" as const,
+    },
+    {
+      desc: "undoing a rename under an overlay without names",
+      operations: ["+pr2", "+pr5", "-pr2"],
+    },
+    {
+      desc: "undoing a rename with stale names dropped",
+      operations: ["+pr2", "+pr1", "-pr2"],
+      staleNames: "drop" as const,
+    },
+    { desc: "an overlay declaring a target twice", operations: ["+pr6"] },
+    {
+      desc: "an overlay declaring a target twice with stale names dropped",
+      operations: ["+pr2", "+pr6"],
+      staleNames: "drop" as const,
+    },
+  ].forEach((tc) => {
+    it(`should match buildHydratedDag after ${tc.desc}`, () => {
+      const incremental = createIncrementalHydratedDag({
+        baselineTargets,
+        staleNames: tc.staleNames,
+      });
+
+      for (const operation of tc.operations) {
+        const sha = operation.slice(1);
+        if (operation.startsWith("+")) {
+          incremental.addOverlay(sha, overlays[sha]);
+        } else {
+          incremental.removeOverlay(sha);
+        }
+      }
+
+      expect(incremental.hydratedDag).toEqual(
+        buildHydratedDag({
+          baselineTargets,
+          additionalTargets: incremental
+            .overlayShas()
+            .map((sha) => overlays[sha]),
+          staleNames: tc.staleNames,
+        })
+      );
+    });
+  });
+
+  it("should track which sources contribute an edge", () => {
+    const incremental = createIncrementalHydratedDag({ baselineTargets });
+    incremental.addOverlay("pr1", overlays.pr1);
+    incremental.addOverlay("pr2", overlays.pr2);
+    incremental.addOverlay("pr3", overlays.pr3);
+
+    expect(
+      incremental.getEdgeProvenance({
+        dependencyId: "utils#build",
+        dependentId: "docs#build",
+      })
+    ).toEqual(["pr1", "pr2"]);
+    // Only pr3 removes the baseline edge, so it stays
+    expect(
+      incremental.getEdgeProvenance({
+        dependencyId: "utils#build",
+        dependentId: "server#build",
+      })
+    ).toEqual([BASELINE_SOURCE, "pr2"]);
+
+    incremental.removeOverlay("pr1");
+    incremental.removeOverlay("pr2");
+
+    expect(
+      incremental.getEdgeProvenance({
+        dependencyId: "utils#build",
+        dependentId: "server#build",
+      })
+    ).toEqual([]);
+  });
+
+  it("should return false when removing an unknown overlay", () => {
+    const incremental = createIncrementalHydratedDag({ baselineTargets });
+
+    expect(incremental.removeOverlay("missing")).toBe(false);
+  });
+});
@@ -0,0 +1,429 @@
+import {
+  addTargetToHydratedDag,
+  BASELINE_SOURCE,
+  type HydratedDag,
+  type StaleNamePolicy,
+  type TargetRename,
+} from "./build_hydrated_dag";
+import { type CachedBuildTargets, type EdgeKind } from "./schemas";
+
+// What a single payload contributes, hydrated on its own
+type Contribution = {
+  // BASELINE_SOURCE or the overlay SHA
+  sourceId: string;
+  dag: HydratedDag;
+  // targetId → the targetName of each node declaring it, in payload order, so names are
+  // applied node by node as in buildHydratedDag
+  targetIdToDeclaredNames: Map<string, (string | undefined)[]>;
+  // Deduplicated, so each overlay counts once per target / edge
+  removedTargetIds: string[];
+  removedEdges: { dependencyId: string; dependentId: string }[];
+};
+
+function createEmptyHydratedDag(): HydratedDag {
+  return {
+    targetIdToDependentIds: new Map(),
+    targetIdToDependencyIds: new Map(),
+    targetIdToName: new Map(),
+    nameToTargetIds: new Map(),
+    targetIdToPackageRoot: new Map(),
+    targetIdToDependentKinds: new Map(),
+    targetIdToSources: new Map(),
+    targetIdToRenames: new Map(),
+  };
+}
+
+function toContribution(
+  targets: CachedBuildTargets,
+  sourceId: string,
+  includeDependencies: boolean
+): Contribution {
+  const dag = createEmptyHydratedDag();
+  const targetIdToDeclaredNames = new Map<string, (string | undefined)[]>();
+  for (const node of targets.graph) {
+    addTargetToHydratedDag(dag, node, includeDependencies);
+    const { targetId, targetName } = node.target;
+    if (!targetIdToDeclaredNames.has(targetId)) {
+      targetIdToDeclaredNames.set(targetId, []);
+    }
+    targetIdToDeclaredNames.get(targetId)!.push(targetName);
+  }
+
+  const removedEdges = new Map(
+    (targets.mode === "filtered" ? (targets.removedEdges ?? []) : []).map(
+      (edge) => [edgeKey(edge.dependencyId, edge.dependentId), edge]
+    )
+  );
+  return {
+    sourceId,
+    dag,
+    targetIdToDeclaredNames,
+    removedTargetIds: [
+      ...new Set(
+        targets.mode === "filtered" ? (targets.removedTargetIds ?? []) : []
+      ),
+    ],
+    removedEdges: [...removedEdges.values()],
+  };
+}
+
+function edgeKey(dependencyId: string, dependentId: string) {
+  return `${dependencyId}\0${dependentId}`;
+}
+
+function incrementCount(counts: Map<string, number>, key: string, by: number) {
+  const count = (counts.get(key) ?? 0) + by;
+  if (count === 0) {
+    counts.delete(key);
+  } else {
+    counts.set(key, count);
+  }
+}
+
+// Inverts an adjacency map: neighbor → targets whose set (or map keys) contains it
+function invertAdjacency(
+  adjacency: Map<string, Set<string> | Map<string, unknown>>
+) {
+  const inverted = new Map<string, Set<string>>();
+  for (const [targetId, neighborIds] of adjacency) {
+    for (const neighborId of neighborIds.keys()) {
+      if (!inverted.has(neighborId)) {
+        inverted.set(neighborId, new Set());
+      }
+      inverted.get(neighborId)!.add(targetId);
+    }
+  }
+  return inverted;
+}
+
+/**
+ * Stateful HydratedDag built once from a baseline, with PR overlays added and removed
+ * in place. `hydratedDag` always equals buildHydratedDag over the baseline and the current
+ * overlays in the order they were added, including payloads that declare a target twice.
+ * Each payload is hydrated separately and kept as the provenance of its edges and names,
+ * which are replayed node by node;
+ * an update only recomputes the entries of targets the overlay touches, so removing an
+ * overlay drops exactly what no other source still contributes.
+ * `staleNames` applies to renames as in buildHydratedDag, with overlay SHAs as rename sources.
+ * `hydratedDag` never carries an indexedDag; call buildIndexedDag for a snapshot.
+ */
+export function createIncrementalHydratedDag({
+  baselineTargets,
+  staleNames = "resolve",
+}: {
+  baselineTargets: CachedBuildTargets;
+  staleNames?: StaleNamePolicy;
+}) {
+  if (baselineTargets.mode !== "full-dag") {
+    throw new Error(
+      `Baseline commit ${baselineTargets.headSha} must have full-dag mode, got ${baselineTargets.mode}`
+    );
+  }
+
+  const baseline = toContribution(baselineTargets, BASELINE_SOURCE, false);
+  // Baseline targets whose entries reference a target, for removals
+  const baselineDependentIdsInverse = invertAdjacency(
+    baseline.dag.targetIdToDependentIds
+  );
+  const baselineDependencyIdsInverse = invertAdjacency(
+    baseline.dag.targetIdToDependencyIds
+  );
+  const baselineDependentKindsInverse = invertAdjacency(
+    baseline.dag.targetIdToDependentKinds
+  );
+
+  // Insertion order is overlay order: later overlays win name and package root conflicts
+  const overlays = new Map<string, Contribution>();
+  // How many overlays remove each baseline target / edge; as in buildHydratedDag, it is
+  // dropped only while every overlay removes it
+  const removedTargetCounts = new Map<string, number>();
+  const removedEdgeCounts = new Map<string, number>();
+
+  const hydratedDag = createEmptyHydratedDag();
+
+  const isRemovedByEveryOverlay = (counts: Map<string, number>, key: string) =>
+    overlays.size > 0 && counts.get(key) === overlays.size;
+  const isBaselineTargetActive = (targetId: string) =>
+    !isRemovedByEveryOverlay(removedTargetCounts, targetId);
+  const isBaselineEdgeActive = (dependencyId: string, dependentId: string) =>
+    isBaselineTargetActive(dependencyId) &&
+    isBaselineTargetActive(dependentId) &&
+    !isRemovedByEveryOverlay(
+      removedEdgeCounts,
+      edgeKey(dependencyId, dependentId)
+    );
+
+  function* activeSources(targetId: string) {
+    if (isBaselineTargetActive(targetId)) {
+      yield baseline;
+    }
+    yield* overlays.values();
+  }
+
+  // Current names per target, to diff nameToTargetIds against
+  const targetIdToNames = new Map<string, Set<string>>();
+
+  function recomputeAdjacency(
+    targetId: string,
+    select: (dag: HydratedDag) => Map<string, Set<string>>,
+    isBaselineNeighborActive: (neighborId: string) => boolean
+  ) {
+    let neighborIds: Set<string> | undefined;
+    for (const source of activeSources(targetId)) {
+      const sourceNeighborIds = select(source.dag).get(targetId);
+      if (!sourceNeighborIds) {
+        continue;
+      }
+      neighborIds ??= new Set();
+      for (const neighborId of sourceNeighborIds) {
+        if (source !== baseline || isBaselineNeighborActive(neighborId)) {
+          neighborIds.add(neighborId);
+        }
+      }
+    }
+
+    const adjacency = select(hydratedDag);
+    if (neighborIds) {
+      adjacency.set(targetId, neighborIds);
+    } else {
+      adjacency.delete(targetId);
+    }
+  }
+
+  function recomputeDependentKinds(targetId: string) {
+    const dependentKinds = new Map<string, Set<EdgeKind>>();
+    for (const source of activeSources(targetId)) {
+      for (const [
+        dependentId,
+        kinds,
+      ] of source.dag.targetIdToDependentKinds.get(targetId) ?? []) {
+        if (
+          source === baseline &&
+          !isBaselineEdgeActive(targetId, dependentId)
+        ) {
+          continue;
+        }
+        if (!dependentKinds.has(dependentId)) {
+          dependentKinds.set(dependentId, new Set());
+        }
+        for (const kind of kinds) {
+          dependentKinds.get(dependentId)!.add(kind);
+        }
+      }
+    }
+
+    if (dependentKinds.size > 0) {
+      hydratedDag.targetIdToDependentKinds.set(targetId, dependentKinds);
+    } else {
+      hydratedDag.targetIdToDependentKinds.delete(targetId);
+    }
+  }
+
+  function recomputeTarget(targetId: string) {
+    recomputeAdjacency(
+      targetId,
+      (dag) => dag.targetIdToDependentIds,
+      (dependentId) => isBaselineEdgeActive(targetId, dependentId)
+    );
+    recomputeAdjacency(
+      targetId,
+      (dag) => dag.targetIdToDependencyIds,
+      (dependencyId) => isBaselineEdgeActive(dependencyId, targetId)
+    );
+    recomputeDependentKinds(targetId);
+
+    let name: string | undefined;
+    let packageRoot: string | undefined;
+    const names = new Set<string>();
+    const sourceIds = new Set<string>();
+    const renames: TargetRename[] = [];
+    for (const source of activeSources(targetId)) {
+      const declaredNames = source.targetIdToDeclaredNames.get(targetId) ?? [];
+      if (declaredNames.length > 0) {
+        sourceIds.add(source.sourceId);
+      }
+      // Node by node, as addTargetToHydratedDag and recordRename would apply them
+      for (const declaredName of declaredNames) {
+        const newName = declaredName ?? name ?? `ID:${targetId}`;
+        if (source !== baseline && name !== undefined && name !== newName) {
+          renames.push({
+            targetId,
+            oldName: name,
+            newName,
+            sourceSha: source.sourceId,
+          });
+          if (staleNames === "drop") {
+            names.delete(name);
+          }
+        }
+        name = newName;
+        names.add(newName);
+      }
+      packageRoot =
+        source.dag.targetIdToPackageRoot.get(targetId) ?? packageRoot;
+    }
+
+    if (name === undefined) {
+      hydratedDag.targetIdToName.delete(targetId);
+    } else {
+      hydratedDag.targetIdToName.set(targetId, name);
+    }
+    if (packageRoot === undefined) {
+      hydratedDag.targetIdToPackageRoot.delete(targetId);
+    } else {
+      hydratedDag.targetIdToPackageRoot.set(targetId, packageRoot);
+    }
+    if (sourceIds.size > 0) {
+      hydratedDag.targetIdToSources.set(targetId, sourceIds);
+    } else {
+      hydratedDag.targetIdToSources.delete(targetId);
+    }
+    if (renames.length > 0) {
+      hydratedDag.targetIdToRenames.set(targetId, renames);
+    } else {
+      hydratedDag.targetIdToRenames.delete(targetId);
+    }
+
+    const previousNames = targetIdToNames.get(targetId) ?? new Set<string>();
+    for (const previousName of previousNames) {
+      if (!names.has(previousName)) {
+        const targetIds = hydratedDag.nameToTargetIds.get(previousName)!;
+        targetIds.delete(targetId);
+        if (targetIds.size === 0) {
+          hydratedDag.nameToTargetIds.delete(previousName);
+        }
+      }
+    }
+    for (const newName of names) {
+      if (!hydratedDag.nameToTargetIds.has(newName)) {
+        hydratedDag.nameToTargetIds.set(newName, new Set());
+      }
+      hydratedDag.nameToTargetIds.get(newName)!.add(targetId);
+    }
+    if (names.size > 0) {
+      targetIdToNames.set(targetId, names);
+    } else {
+      targetIdToNames.delete(targetId);
+    }
+  }
+
+  // Target IDs whose entries a contribution's removals can change
+  function addRemovalTouchedTargetIds(
+    touched: Set<string>,
+    contribution: Contribution
+  ) {
+    for (const targetId of contribution.removedTargetIds) {
+      touched.add(targetId);
+      for (const referencingId of [
+        ...(baselineDependentIdsInverse.get(targetId) ?? []),
+        ...(baselineDependencyIdsInverse.get(targetId) ?? []),
+        ...(baselineDependentKindsInverse.get(targetId) ?? []),
+      ]) {
+        touched.add(referencingId);
+      }
+    }
+    for (const { dependencyId, dependentId } of contribution.removedEdges) {
+      touched.add(dependencyId);
+      touched.add(dependentId);
+    }
+  }
+
+  // Target IDs whose entries adding or removing a contribution can change. The overlay
+  // count changes too, which can flip whether any other overlay's removals apply.
+  function touchedTargetIds(contribution: Contribution) {
+    const { dag } = contribution;
+    const touched = new Set([
+      ...dag.targetIdToDependentIds.keys(),
+      ...dag.targetIdToDependencyIds.keys(),
+      ...dag.targetIdToName.keys(),
+      ...dag.targetIdToDependentKinds.keys(),
+    ]);
+    for (const overlay of [contribution, ...overlays.values()]) {
+      addRemovalTouchedTargetIds(touched, overlay);
+    }
+    return touched;
+  }
+
+  function applyRemovals(contribution: Contribution, by: 1 | -1) {
+    for (const targetId of contribution.removedTargetIds) {
+      incrementCount(removedTargetCounts, targetId, by);
+    }
+    for (const { dependencyId, dependentId } of contribution.removedEdges) {
+      incrementCount(removedEdgeCounts, edgeKey(dependencyId, dependentId), by);
+    }
+  }
+
+  for (const targetId of touchedTargetIds(baseline)) {
+    recomputeTarget(targetId);
+  }
+
+  /**
+   * Removes the overlay for sha, if any. Returns whether one was removed.
+   */
+  function removeOverlay(sha: string) {
+    const contribution = overlays.get(sha);
+    if (!contribution) {
+      return false;
+    }
+    overlays.delete(sha);
+    applyRemovals(contribution, -1);
+    for (const targetId of touchedTargetIds(contribution)) {
+      recomputeTarget(targetId);
+    }
+    return true;
+  }
+
+  /**
+   * Adds an overlay for sha, replacing (and moving to the end) any existing one.
+   */
+  function addOverlay(sha: string, targets: CachedBuildTargets) {
+    removeOverlay(sha);
+    const contribution = toContribution(targets, sha, true);
+    overlays.set(sha, contribution);
+    applyRemovals(contribution, 1);
+    for (const targetId of touchedTargetIds(contribution)) {
+      recomputeTarget(targetId);
+    }
+  }
+
+  /**
+   * Sources contributing an edge: BASELINE_SOURCE and/or overlay SHAs, in overlay order.
+   */
+  function getEdgeProvenance({
+    dependencyId,
+    dependentId,
+  }: {
+    dependencyId: string;
+    dependentId: string;
+  }) {
+    const sources: string[] = [];
+    const contributesEdge = ({ dag }: Contribution) =>
+      dag.targetIdToDependentIds.get(dependencyId)?.has(dependentId) ||
+      dag.targetIdToDependencyIds.get(dependentId)?.has(dependencyId);
+
+    if (
+      isBaselineEdgeActive(dependencyId, dependentId) &&
+      contributesEdge(baseline)
+    ) {
+      sources.push(BASELINE_SOURCE);
+    }
+    for (const [sha, contribution] of overlays) {
+      if (contributesEdge(contribution)) {
+        sources.push(sha);
+      }
+    }
+    return sources;
+  }
+
+  return {
+    hydratedDag,
+    addOverlay,
+    removeOverlay,
+    getEdgeProvenance,
+    overlayShas: () => [...overlays.keys()],
+  };
+}
+
+export type IncrementalHydratedDag = ReturnType<
+  typeof createIncrementalHydratedDag
+>;
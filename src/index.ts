@@ -1,5 +1,27 @@
+export * from "./affected_targets_by_pr";
 export * from "./build_hydrated_dag";
+export * from "./compression";
+export * from "./compute_conflict_matrix";
+export * from "./compute_transitive_dependencies";
 export * from "./compute_transitive_targets";
+export * from "./create_cached_build_targets";
+export * from "./diff_cached_build_targets";
+export * from "./export_dag";
 export * from "./get_cached_targets";
+export * from "./glob";
+export * from "./hydrated_dag_snapshot";
+export * from "./incremental_hydrated_dag";
+export * from "./indexed_dag";
+export * from "./map_changed_files_to_targets";
+export * from "./nx_adapter";
+export * from "./partition_into_zones";
+export * from "./put_cached_targets";
+export * from "./schema_registry";
 export * from "./schemas";
+export * from "./storage_clients";
+export * from "./target_id";
+export * from "./target_selectors";
+export * from "./turbo_adapter";
 export * from "./types";
+export * from "./validate_dag";
+export * from "./workspace_adapter";
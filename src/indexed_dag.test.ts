@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { computeTransitiveDependencies } from "./compute_transitive_dependencies";
+import {
+  computeTransitiveTargets,
+  explainTransitiveTargets,
+} from "./compute_transitive_targets";
+import { buildIndexedDag, traverseIndexedDag } from "./indexed_dag";
+import { type CachedBuildTargets } from "./schemas";
+
+// a → b → c, a → d; e is isolated; "ghost" is only referenced by an edge
+const baselineTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "base",
+  targetIds: [],
+  graph: [
+    ["a", ["b", "d"]],
+    ["b", ["c"]],
+    ["c", ["ghost"]],
+    ["d", []],
+    ["e", []],
+  ].map(([name, dependents]) => ({
+    target: { targetId: `${name}#build`, targetName: name as string },
+    dependencies: [],
+    dependents: (dependents as string[]).map((d) => `${d}#build`),
+  })),
+};
+
+describe("buildIndexedDag", () => {
+  it("should intern every target ID and pack adjacency into CSR arrays", () => {
+    const hydratedDag = buildHydratedDag({
+      baselineTargets,
+      additionalTargets: [],
+    });
+
+    const indexedDag = buildIndexedDag({ hydratedDag });
+
+    expect(new Set(indexedDag.targetIds)).toEqual(
+      new Set(["a", "b", "c", "d", "e", "ghost"].map((n) => `${n}#build`))
+    );
+    const dependentsOf = (targetId: string) => {
+      const index = indexedDag.targetIdToIndex.get(targetId)!;
+      return [
+        ...indexedDag.dependentIndices.subarray(
+          indexedDag.dependentOffsets[index],
+          indexedDag.dependentOffsets[index + 1]
+        ),
+      ].map((i) => indexedDag.targetIds[i]);
+    };
+    expect(dependentsOf("a#build")).toEqual(["b#build", "d#build"]);
+    expect(dependentsOf("ghost#build")).toEqual([]);
+  });
+});
+
+describe("traverseIndexedDag", () => {
+  it("should record shortest-path parents", () => {
+    const indexedDag = buildIndexedDag({
+      hydratedDag: buildHydratedDag({ baselineTargets, additionalTargets: [] }),
+    });
+    const indexOf = (name: string) =>
+      indexedDag.targetIdToIndex.get(`${name}#build`)!;
+
+    const { order, parents } = traverseIndexedDag({
+      indexedDag,
+      startIndices: [indexOf("a")],
+      direction: "dependents",
+    });
+
+    expect(order.length).toBe(5);
+    expect(parents[indexOf("a")]).toBe(-1);
+    expect(parents[indexOf("c")]).toBe(indexOf("b"));
+    expect(parents[indexOf("e")]).toBe(-2);
+  });
+});
+
+describe("indexed traversal parity", () => {
+  const plainDag = buildHydratedDag({ baselineTargets, additionalTargets: [] });
+  const indexedDag = buildHydratedDag({
+    baselineTargets,
+    additionalTargets: [],
+    indexed: true,
+  });
+
+  [
+    { desc: "root", directPackageNames: ["a"] },
+    { desc: "leaf", directPackageNames: ["c"] },
+    { desc: "several names", directPackageNames: ["b", "d", "e"] },
+    { desc: "unknown names", directPackageNames: ["a", "@monologue/new"] },
+  ].forEach((tc) => {
+    it(`should match the map-based traversal for ${tc.desc}`, () => {
+      const ids = (targets: Set<{ id: string }>) =>
+        [...targets].map((t) => t.id).sort();
+
+      expect(
+        ids(
+          computeTransitiveTargets({
+            directPackageNames: tc.directPackageNames,
+            hydratedDag: indexedDag,
+          })
+        )
+      ).toEqual(
+        ids(
+          computeTransitiveTargets({
+            directPackageNames: tc.directPackageNames,
+            hydratedDag: plainDag,
+          })
+        )
+      );
+      expect(
+        explainTransitiveTargets({
+          directPackageNames: tc.directPackageNames,
+          hydratedDag: indexedDag,
+        })
+      ).toEqual(
+        explainTransitiveTargets({
+          directPackageNames: tc.directPackageNames,
+          hydratedDag: plainDag,
+        })
+      );
+      expect(
+        ids(
+          computeTransitiveDependencies({
+            directPackageNames: tc.directPackageNames,
+            hydratedDag: indexedDag,
+          })
+        )
+      ).toEqual(
+        ids(
+          computeTransitiveDependencies({
+            directPackageNames: tc.directPackageNames,
+            hydratedDag: plainDag,
+          })
+        )
+      );
+    });
+  });
+});
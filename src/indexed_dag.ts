@@ -0,0 +1,218 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { type EdgeKind, EdgeKindSchema } from "./schemas";
+
+/**
+ * Compact, read-only view of a HydratedDag for traversal on large graphs.
+ * Target IDs are interned to integer indices and adjacency is stored CSR-style: the
+ * dependents of target i are dependentIndices[dependentOffsets[i]..dependentOffsets[i + 1]).
+ * Kind masks run parallel to the index arrays, one bit per EdgeKind (0 when the edge has no kind).
+ */
+export type IndexedDag = {
+  // Index → target ID
+  targetIds: string[];
+  targetIdToIndex: Map<string, number>;
+  dependentOffsets: Uint32Array;
+  dependentIndices: Uint32Array;
+  dependentKindMasks: Uint8Array;
+  dependencyOffsets: Uint32Array;
+  dependencyIndices: Uint32Array;
+  dependencyKindMasks: Uint8Array;
+};
+
+// Sentinels in traversal parent arrays
+const UNVISITED = -2;
+const ROOT = -1;
+
+function toKindMask(kinds: Iterable<EdgeKind>) {
+  let mask = 0;
+  for (const kind of kinds) {
+    mask |= 1 << EdgeKindSchema.options.indexOf(kind);
+  }
+  return mask;
+}
+
+function buildAdjacency(
+  adjacency: Map<string, Set<string>>,
+  targetIdToIndex: Map<string, number>,
+  getEdgeKinds: (
+    targetId: string,
+    neighborId: string
+  ) => Set<EdgeKind> | undefined
+) {
+  const offsets = new Uint32Array(targetIdToIndex.size + 1);
+  for (const [targetId, neighborIds] of adjacency) {
+    offsets[targetIdToIndex.get(targetId)! + 1] = neighborIds.size;
+  }
+  for (let i = 0; i < targetIdToIndex.size; i++) {
+    offsets[i + 1] += offsets[i];
+  }
+
+  const indices = new Uint32Array(offsets[targetIdToIndex.size]);
+  const kindMasks = new Uint8Array(indices.length);
+  for (const [targetId, neighborIds] of adjacency) {
+    let position = offsets[targetIdToIndex.get(targetId)!];
+    for (const neighborId of neighborIds) {
+      kindMasks[position] = toKindMask(
+        getEdgeKinds(targetId, neighborId) ?? []
+      );
+      indices[position++] = targetIdToIndex.get(neighborId)!;
+    }
+  }
+  return { offsets, indices, kindMasks };
+}
+
+/**
+ * Interns every target ID in the DAG, including IDs only referenced by edges, and packs
+ * both adjacency maps into CSR arrays.
+ * The result is a snapshot: rebuild it after mutating the HydratedDag.
+ */
+export function buildIndexedDag({
+  hydratedDag,
+}: {
+  hydratedDag: HydratedDag;
+}): IndexedDag {
+  const {
+    targetIdToDependentIds,
+    targetIdToDependencyIds,
+    targetIdToName,
+    targetIdToDependentKinds,
+  } = hydratedDag;
+
+  const targetIds: string[] = [];
+  const targetIdToIndex = new Map<string, number>();
+  const intern = (targetId: string) => {
+    if (!targetIdToIndex.has(targetId)) {
+      targetIdToIndex.set(targetId, targetIds.length);
+      targetIds.push(targetId);
+    }
+  };
+  for (const targetId of targetIdToName.keys()) {
+    intern(targetId);
+  }
+  for (const adjacency of [targetIdToDependentIds, targetIdToDependencyIds]) {
+    for (const [targetId, neighborIds] of adjacency) {
+      intern(targetId);
+      for (const neighborId of neighborIds) {
+        intern(neighborId);
+      }
+    }
+  }
+
+  const dependents = buildAdjacency(
+    targetIdToDependentIds,
+    targetIdToIndex,
+    (targetId, dependentId) =>
+      targetIdToDependentKinds.get(targetId)?.get(dependentId)
+  );
+  const dependencies = buildAdjacency(
+    targetIdToDependencyIds,
+    targetIdToIndex,
+    (targetId, dependencyId) =>
+      targetIdToDependentKinds.get(dependencyId)?.get(targetId)
+  );
+
+  return {
+    targetIds,
+    targetIdToIndex,
+    dependentOffsets: dependents.offsets,
+    dependentIndices: dependents.indices,
+    dependentKindMasks: dependents.kindMasks,
+    dependencyOffsets: dependencies.offsets,
+    dependencyIndices: dependencies.indices,
+    dependencyKindMasks: dependencies.kindMasks,
+  };
+}
+
+/**
+ * Breadth-first walk from startIndices over dependents or dependencies, at most maxDepth
+ * edges out. Returns the reached indices in visit order and, per index, the index it was
+ * first reached from (-1 for start indices, -2 for unreached), so parent chains are
+ * shortest paths, and its depth (edges from the nearest start index).
+ * With edgeKinds, only edges of those kinds and edges without a kind are followed.
+ * excludedIndices are never reached and excludedEdges never followed, as if absent.
+ */
+export function traverseIndexedDag({
+  indexedDag,
+  startIndices,
+  direction,
+  maxDepth = Infinity,
+  edgeKinds,
+  excludedIndices,
+  excludedEdges = [],
+}: {
+  indexedDag: IndexedDag;
+  startIndices: Iterable<number>;
+  direction: "dependents" | "dependencies";
+  maxDepth?: number;
+  edgeKinds?: EdgeKind[];
+  excludedIndices?: ReadonlySet<number>;
+  excludedEdges?: { dependencyIndex: number; dependentIndex: number }[];
+}) {
+  const [offsets, indices, kindMasks] =
+    direction === "dependents"
+      ? [
+          indexedDag.dependentOffsets,
+          indexedDag.dependentIndices,
+          indexedDag.dependentKindMasks,
+        ]
+      : [
+          indexedDag.dependencyOffsets,
+          indexedDag.dependencyIndices,
+          indexedDag.dependencyKindMasks,
+        ];
+  const followMask = edgeKinds ? toKindMask(edgeKinds) : null;
+  // Edges keyed by (from, to) in the traversal direction
+  const targetCount = indexedDag.targetIds.length;
+  const excludedEdgeKeys = new Set(
+    excludedEdges.map(({ dependencyIndex, dependentIndex }) =>
+      direction === "dependents"
+        ? dependencyIndex * targetCount + dependentIndex
+        : dependentIndex * targetCount + dependencyIndex
+    )
+  );
+
+  const parents = new Int32Array(indexedDag.targetIds.length).fill(UNVISITED);
+  const depths = new Uint32Array(indexedDag.targetIds.length);
+  // Each index is enqueued at most once, so the queue never outgrows the target count
+  const queue = new Uint32Array(indexedDag.targetIds.length);
+  let head = 0;
+  let tail = 0;
+
+  for (const index of startIndices) {
+    if (parents[index] === UNVISITED) {
+      parents[index] = ROOT;
+      queue[tail++] = index;
+    }
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    if (depths[index] >= maxDepth) {
+      continue;
+    }
+    for (let i = offsets[index]; i < offsets[index + 1]; i++) {
+      if (
+        followMask !== null &&
+        kindMasks[i] !== 0 &&
+        (kindMasks[i] & followMask) === 0
+      ) {
+        continue;
+      }
+      const neighbor = indices[i];
+      if (
+        excludedIndices?.has(neighbor) ||
+        (excludedEdgeKeys.size > 0 &&
+          excludedEdgeKeys.has(index * targetCount + neighbor))
+      ) {
+        continue;
+      }
+      if (parents[neighbor] === UNVISITED) {
+        parents[neighbor] = index;
+        depths[neighbor] = depths[index] + 1;
+        queue[tail++] = neighbor;
+      }
+    }
+  }
+
+  return { order: queue.subarray(0, tail), parents, depths };
+}
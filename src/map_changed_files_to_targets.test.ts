@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { computeTransitiveTargets } from "./compute_transitive_targets";
+import {
+  type GlobalFileRule,
+  mapChangedFilesToTargets,
+} from "./map_changed_files_to_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+const createBaselineTargets = (
+  targets: { targetName: string; packageRoot?: string; tasks?: string[] }[]
+): CachedBuildTargets => ({
+  version: 3,
+  mode: "full-dag",
+  headSha: "baseline123",
+  targetIds: targets.map((t) => t.targetName),
+  graph: targets.flatMap((t) =>
+    (t.tasks ?? ["build"]).map((task) => ({
+      target: {
+        targetId: `${t.targetName}#${task}`,
+        targetName: t.targetName,
+        packageRoot: t.packageRoot,
+      },
+      dependencies: [],
+      dependents: [],
+    }))
+  ),
+});
+
+const hydratedDag = buildHydratedDag({
+  baselineTargets: createBaselineTargets([
+    { targetName: "@monologue/web", packageRoot: "apps/web" },
+    { targetName: "@monologue/web-e2e", packageRoot: "apps/web/e2e" },
+    {
+      targetName: "@monologue/utils",
+      packageRoot: "packages/utils",
+      tasks: ["build", "test"],
+    },
+    { targetName: "@monologue/server", packageRoot: "apps/server" },
+    { targetName: "@monologue/no-root" },
+  ]),
+  additionalTargets: [],
+});
+
+type TestCase = {
+  desc: string;
+  changedFiles: string[];
+  globalFiles?: GlobalFileRule[];
+  expectedTargetIds: string[];
+  expectedUnmatchedFiles: string[];
+};
+
+describe("mapChangedFilesToTargets", () => {
+  const testCases: TestCase[] = [
+    {
+      desc: "should map files to the targets of their package",
+      changedFiles: ["packages/utils/src/index.ts"],
+      expectedTargetIds: ["@monologue/utils#build", "@monologue/utils#test"],
+      expectedUnmatchedFiles: [],
+    },
+    {
+      desc: "should use the longest matching package root",
+      changedFiles: ["apps/web/e2e/login.spec.ts", "apps/web/src/app.tsx"],
+      expectedTargetIds: ["@monologue/web#build", "@monologue/web-e2e#build"],
+      expectedUnmatchedFiles: [],
+    },
+    {
+      desc: "should not match package roots that only share a name prefix",
+      changedFiles: ["apps/webhooks/index.ts"],
+      expectedTargetIds: [],
+      expectedUnmatchedFiles: ["apps/webhooks/index.ts"],
+    },
+    {
+      desc: "should report files outside every package root",
+      changedFiles: ["README.md", "./apps/server/main.ts"],
+      expectedTargetIds: ["@monologue/server#build"],
+      expectedUnmatchedFiles: ["README.md"],
+    },
+    {
+      desc: "should mark specific targets for matching global files",
+      changedFiles: ["tsconfig.base.json"],
+      globalFiles: [
+        {
+          pattern: "tsconfig.*.json",
+          targets: ["@monologue/server", "@monologue/web#build"],
+        },
+      ],
+      expectedTargetIds: ["@monologue/server#build", "@monologue/web#build"],
+      expectedUnmatchedFiles: [],
+    },
+    {
+      desc: "should mark all targets for global files configured with all",
+      changedFiles: ["pnpm-lock.yaml"],
+      globalFiles: [{ pattern: "pnpm-lock.yaml", targets: "all" }],
+      expectedTargetIds: [
+        "@monologue/no-root#build",
+        "@monologue/server#build",
+        "@monologue/utils#build",
+        "@monologue/utils#test",
+        "@monologue/web#build",
+        "@monologue/web-e2e#build",
+      ],
+      expectedUnmatchedFiles: [],
+    },
+  ];
+
+  testCases.forEach((tc) => {
+    it(tc.desc, () => {
+      const result = mapChangedFilesToTargets({
+        changedFiles: tc.changedFiles,
+        hydratedDag,
+        globalFiles: tc.globalFiles,
+      });
+
+      expect(result.directTargets.map((t) => t.id).sort()).toEqual(
+        tc.expectedTargetIds
+      );
+      expect(result.unmatchedFiles).toEqual(tc.expectedUnmatchedFiles);
+    });
+  });
+
+  it("should treat a root package as a catch-all", () => {
+    const result = mapChangedFilesToTargets({
+      changedFiles: ["README.md", "apps/web/index.ts"],
+      hydratedDag: buildHydratedDag({
+        baselineTargets: createBaselineTargets([
+          { targetName: "//", packageRoot: "" },
+          { targetName: "@monologue/web", packageRoot: "apps/web" },
+        ]),
+        additionalTargets: [],
+      }),
+    });
+
+    expect(result.directPackageNames.sort()).toEqual(["//", "@monologue/web"]);
+    expect(result.unmatchedFiles).toEqual([]);
+  });
+
+  it("should select a single task named by a global rule by its target ID", () => {
+    const result = mapChangedFilesToTargets({
+      changedFiles: ["jest.config.js", "apps/server/main.ts"],
+      hydratedDag,
+      globalFiles: [
+        { pattern: "jest.config.js", targets: ["@monologue/utils#test"] },
+      ],
+    });
+
+    expect(result.directPackageNames.sort()).toEqual([
+      "@monologue/server",
+      "@monologue/utils#test",
+    ]);
+    expect(
+      [
+        ...computeTransitiveTargets({
+          directPackageNames: result.directPackageNames,
+          hydratedDag,
+        }),
+      ]
+        .map((t) => t.id)
+        .sort()
+    ).toEqual(["@monologue/server#build", "@monologue/utils#test"]);
+  });
+});
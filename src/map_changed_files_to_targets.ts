@@ -0,0 +1,130 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { type ComputedTarget } from "./compute_transitive_targets";
+import { globToRegExp } from "./glob";
+
+/**
+ * Rule for files outside (or on top of) package roots, e.g. lockfiles and root configs
+ */
+export type GlobalFileRule = {
+  // Glob matched against the whole repo-relative path, e.g., "pnpm-lock.yaml" or "*.config.js"
+  pattern: string;
+  // "all" to mark every target, or package names / target IDs to mark
+  targets: "all" | string[];
+};
+
+// Repo-relative, without "./" or trailing slashes; the repo root is ""
+function normalizePath(filePath: string) {
+  const normalized = filePath.replace(/^\.\//, "").replace(/\/+$/, "");
+  return normalized === "." ? "" : normalized;
+}
+
+/**
+ * Maps changed file paths (e.g. from `git diff --name-only`) to direct targets.
+ * Files matching a global file rule mark that rule's targets instead of being matched by
+ * path. Every other file is attributed to the targets with the longest packageRoot that
+ * contains it; a "" packageRoot acts as a catch-all for the repo root.
+ * Returns the direct targets, selectors for them (ready for computeTransitiveTargets: package
+ * names where every target of the package is direct, target IDs otherwise), and the files
+ * no target claimed.
+ */
+export function mapChangedFilesToTargets({
+  changedFiles,
+  hydratedDag,
+  globalFiles = [],
+}: {
+  changedFiles: string[];
+  hydratedDag: HydratedDag;
+  globalFiles?: GlobalFileRule[];
+}) {
+  const { targetIdToName, nameToTargetIds, targetIdToPackageRoot } =
+    hydratedDag;
+
+  const packageRootToTargetIds = new Map<string, string[]>();
+  for (const [targetId, packageRoot] of targetIdToPackageRoot) {
+    const root = normalizePath(packageRoot);
+    if (!packageRootToTargetIds.has(root)) {
+      packageRootToTargetIds.set(root, []);
+    }
+    packageRootToTargetIds.get(root)!.push(targetId);
+  }
+
+  const globalFileRules = globalFiles.map((rule) => ({
+    regExp: globToRegExp(rule.pattern),
+    targets: rule.targets,
+  }));
+
+  const directTargetIds = new Set<string>();
+  const unmatchedFiles: string[] = [];
+
+  for (const changedFile of changedFiles) {
+    const filePath = normalizePath(changedFile);
+
+    const matchingRules = globalFileRules.filter((rule) =>
+      rule.regExp.test(filePath)
+    );
+    if (matchingRules.length > 0) {
+      for (const rule of matchingRules) {
+        if (rule.targets === "all") {
+          for (const targetId of targetIdToName.keys()) {
+            directTargetIds.add(targetId);
+          }
+          continue;
+        }
+        for (const nameOrId of rule.targets) {
+          if (targetIdToName.has(nameOrId)) {
+            directTargetIds.add(nameOrId);
+          }
+          for (const targetId of nameToTargetIds.get(nameOrId) ?? []) {
+            directTargetIds.add(targetId);
+          }
+        }
+      }
+      continue;
+    }
+
+    // Walk up the file's directories so lookups are O(depth), not O(package roots)
+    let directory = filePath;
+    let targetIds: string[] | undefined;
+    while (!targetIds) {
+      const slashIndex = directory.lastIndexOf("/");
+      directory = slashIndex === -1 ? "" : directory.slice(0, slashIndex);
+      targetIds = packageRootToTargetIds.get(directory);
+      if (directory === "") {
+        break;
+      }
+    }
+
+    if (!targetIds) {
+      unmatchedFiles.push(changedFile);
+      continue;
+    }
+    for (const targetId of targetIds) {
+      directTargetIds.add(targetId);
+    }
+  }
+
+  const directTargets: ComputedTarget[] = [];
+  for (const targetId of directTargetIds) {
+    const name = targetIdToName.get(targetId);
+    if (name) {
+      directTargets.push({ id: targetId, name, depth: 0, direct: true });
+    }
+  }
+
+  // A package name stands for all of its targets, so it is only used when every one is
+  // direct; otherwise the direct targets are selected by ID, e.g. a rule naming one task
+  const directPackageNames = new Set<string>();
+  for (const { id, name } of directTargets) {
+    const nameTargetIds = nameToTargetIds.get(name) ?? new Set<string>();
+    const isWholePackage = [...nameTargetIds].every((targetId) =>
+      directTargetIds.has(targetId)
+    );
+    directPackageNames.add(isWholePackage ? name : id);
+  }
+
+  return {
+    directTargets,
+    directPackageNames: [...directPackageNames],
+    unmatchedFiles,
+  };
+}
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { InvalidBuildGraphInputError } from "./create_cached_build_targets";
+import { cachedBuildTargetsFromNxProjectGraph } from "./nx_adapter";
+
+const projectGraph = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, "fixtures/nx_project_graph.json"),
+    "utf-8"
+  )
+);
+
+describe("cachedBuildTargetsFromNxProjectGraph", () => {
+  it("should build project targets and drop external dependencies", () => {
+    const result = cachedBuildTargetsFromNxProjectGraph({
+      projectGraph,
+      headSha: "abc123",
+    });
+
+    expect(result).toEqual({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: ["ui", "utils", "web"],
+      graph: [
+        {
+          target: {
+            targetId: "ui#build",
+            targetName: "ui",
+            packageRoot: "libs/ui",
+          },
+          dependencies: ["utils#build"],
+          dependents: ["web#build"],
+        },
+        {
+          target: {
+            targetId: "utils#build",
+            targetName: "utils",
+            packageRoot: "libs/utils",
+          },
+          dependencies: [],
+          dependents: ["ui#build"],
+        },
+        {
+          target: {
+            targetId: "web#build",
+            targetName: "web",
+            packageRoot: "apps/web",
+          },
+          dependencies: ["ui#build"],
+          dependents: [],
+        },
+      ],
+    });
+  });
+
+  it("should use the given task in target IDs", () => {
+    const result = cachedBuildTargetsFromNxProjectGraph({
+      projectGraph,
+      headSha: "abc123",
+      task: "test",
+    });
+
+    expect(result.graph.map((node) => node.target.targetId)).toEqual([
+      "ui#test",
+      "utils#test",
+      "web#test",
+    ]);
+  });
+
+  it("should throw InvalidBuildGraphInputError for malformed input", () => {
+    expect(() =>
+      cachedBuildTargetsFromNxProjectGraph({
+        projectGraph: { nodes: {} },
+        headSha: "abc123",
+      })
+    ).toThrow(InvalidBuildGraphInputError);
+  });
+});
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import {
+  createCachedBuildTargets,
+  InvalidBuildGraphInputError,
+} from "./create_cached_build_targets";
+
+/**
+ * Subset of Nx's `project-graph.json` (from `nx graph --file=project-graph.json`)
+ * that the adapter relies on
+ */
+export const NxProjectGraphSchema = z.object({
+  graph: z.object({
+    nodes: z.record(
+      z.object({
+        name: z.string(),
+        data: z.optional(
+          z.object({
+            // Project directory relative to the workspace root
+            root: z.optional(z.string()),
+          })
+        ),
+      })
+    ),
+    dependencies: z.record(
+      z.array(
+        z.object({
+          source: z.string(),
+          target: z.string(),
+        })
+      )
+    ),
+  }),
+});
+
+export type NxProjectGraph = z.infer<typeof NxProjectGraphSchema>;
+
+/**
+ * Builds CachedBuildTargets from an Nx project graph.
+ * Nx graphs are project-level, so each project becomes a `<project>#<task>` target
+ * (task defaults to "build"). Every project is kept, even ones without that task, so
+ * dependency chains through them aren't broken. Dependencies on external nodes
+ * (e.g. `npm:react`) are dropped.
+ */
+export function cachedBuildTargetsFromNxProjectGraph({
+  projectGraph,
+  headSha,
+  baseSha,
+  targetIds,
+  task = "build",
+}: {
+  projectGraph: unknown;
+  headSha: string;
+  baseSha?: string;
+  targetIds?: string[];
+  task?: string;
+}) {
+  const parseResult = NxProjectGraphSchema.safeParse(projectGraph);
+  if (!parseResult.success) {
+    throw new InvalidBuildGraphInputError("nx", parseResult.error);
+  }
+
+  const { nodes, dependencies } = parseResult.data.graph;
+  const projectNameToRoot = new Map(
+    Object.values(nodes).map((node) => [node.name, node.data?.root])
+  );
+
+  return createCachedBuildTargets({
+    graph: [...projectNameToRoot].map(([projectName, packageRoot]) => ({
+      target: {
+        targetId: `${projectName}#${task}`,
+        targetName: projectName,
+        packageRoot,
+      },
+      dependencies: (dependencies[projectName] ?? [])
+        .filter((dependency) => projectNameToRoot.has(dependency.target))
+        .map((dependency) => `${dependency.target}#${task}`),
+    })),
+    headSha,
+    baseSha,
+    targetIds,
+  });
+}
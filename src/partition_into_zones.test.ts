@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { partitionIntoZones } from "./partition_into_zones";
+import { type CachedBuildTargets } from "./schemas";
+
+const createBaselineTargets = (
+  targets: { targetName: string; dependents: string[] }[]
+): CachedBuildTargets => ({
+  version: 3,
+  mode: "full-dag",
+  headSha: "baseline123",
+  targetIds: targets.map((t) => t.targetName),
+  graph: targets.map((t) => ({
+    target: {
+      targetId: `${t.targetName}#build`,
+      targetName: t.targetName,
+    },
+    dependencies: [],
+    dependents: t.dependents.map((d) => `${d}#build`),
+  })),
+});
+
+const createPartialTargets = (
+  headSha: string,
+  targetIds: string[]
+): CachedBuildTargets => ({
+  version: 3,
+  mode: "filtered",
+  baseSha: "baseline123",
+  headSha,
+  targetIds,
+  graph: [],
+});
+
+const baselineTargets = createBaselineTargets([
+  { targetName: "@monologue/utils", dependents: ["@monologue/server"] },
+  { targetName: "@monologue/db-client", dependents: ["@monologue/server"] },
+  { targetName: "@monologue/server", dependents: [] },
+  { targetName: "@monologue/docs", dependents: [] },
+  { targetName: "@monologue/ui", dependents: ["@monologue/web"] },
+  { targetName: "@monologue/web", dependents: [] },
+]);
+
+describe("partitionIntoZones", () => {
+  [
+    {
+      desc: "should put PRs with disjoint affected sets in separate zones",
+      prTargets: new Map([
+        ["pr1", createPartialTargets("sha1", ["@monologue/utils"])],
+        ["pr2", createPartialTargets("sha2", ["@monologue/docs"])],
+      ]),
+      expectedZones: [["pr1"], ["pr2"]],
+    },
+    {
+      desc: "should group PRs whose affected sets overlap",
+      prTargets: new Map([
+        ["pr1", createPartialTargets("sha1", ["@monologue/utils"])],
+        ["pr2", createPartialTargets("sha2", ["@monologue/db-client"])],
+        ["pr3", createPartialTargets("sha3", ["@monologue/ui"])],
+      ]),
+      expectedZones: [["pr1", "pr2"], ["pr3"]],
+    },
+    {
+      desc: "should group PRs transitively",
+      prTargets: new Map([
+        ["pr1", createPartialTargets("sha1", ["@monologue/utils"])],
+        ["pr2", createPartialTargets("sha2", ["@monologue/ui"])],
+        [
+          "pr3",
+          createPartialTargets("sha3", ["@monologue/server", "@monologue/web"]),
+        ],
+      ]),
+      expectedZones: [["pr1", "pr2", "pr3"]],
+    },
+    {
+      desc: "should keep edges that only one PR removes for the other PRs",
+      prTargets: new Map([
+        [
+          "pr1",
+          {
+            version: 3 as const,
+            mode: "filtered" as const,
+            baseSha: "baseline123",
+            headSha: "sha1",
+            targetIds: ["@monologue/web"],
+            graph: [],
+            removedEdges: [
+              {
+                dependencyId: "@monologue/utils#build",
+                dependentId: "@monologue/server#build",
+              },
+            ],
+          },
+        ],
+        ["pr2", createPartialTargets("sha2", ["@monologue/utils"])],
+        ["pr3", createPartialTargets("sha3", ["@monologue/server"])],
+      ]),
+      expectedZones: [["pr1"], ["pr2", "pr3"]],
+    },
+    {
+      desc: "should apply a PR's own removals to its affected set",
+      prTargets: new Map([
+        [
+          "pr1",
+          {
+            version: 3 as const,
+            mode: "filtered" as const,
+            baseSha: "baseline123",
+            headSha: "sha1",
+            targetIds: ["@monologue/utils"],
+            graph: [],
+            removedEdges: [
+              {
+                dependencyId: "@monologue/utils#build",
+                dependentId: "@monologue/server#build",
+              },
+            ],
+          },
+        ],
+        ["pr2", createPartialTargets("sha2", ["@monologue/server"])],
+      ]),
+      expectedZones: [["pr1"], ["pr2"]],
+    },
+    {
+      desc: "should return no zones when there are no PRs",
+      prTargets: new Map<string, CachedBuildTargets>(),
+      expectedZones: [],
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      const zones = partitionIntoZones({
+        baselineTargets,
+        prTargets: tc.prTargets,
+      });
+
+      expect(zones.map((zone) => zone.prIds)).toEqual(tc.expectedZones);
+    });
+  });
+
+  it("should report the union of affected targets and the shared targets", () => {
+    const [zone] = partitionIntoZones({
+      baselineTargets,
+      prTargets: new Map([
+        ["pr1", createPartialTargets("sha1", ["@monologue/utils"])],
+        ["pr2", createPartialTargets("sha2", ["@monologue/db-client"])],
+      ]),
+    });
+
+    expect(zone.affectedTargets.map((t) => t.id).sort()).toEqual([
+      "@monologue/db-client#build",
+      "@monologue/server#build",
+      "@monologue/utils#build",
+    ]);
+    expect(zone.sharedTargets).toEqual([
+      {
+        target: { id: "@monologue/server#build", name: "@monologue/server" },
+        prIds: ["pr1", "pr2"],
+      },
+    ]);
+  });
+
+  it("should use edges added by other PRs in the queue", () => {
+    const zones = partitionIntoZones({
+      baselineTargets,
+      prTargets: new Map<string, CachedBuildTargets>([
+        ["pr1", createPartialTargets("sha1", ["@monologue/docs"])],
+        [
+          "pr2",
+          {
+            version: 3,
+            mode: "filtered",
+            baseSha: "baseline123",
+            headSha: "sha2",
+            targetIds: ["@monologue/web"],
+            graph: [
+              {
+                target: {
+                  targetId: "@monologue/web#build",
+                  targetName: "@monologue/web",
+                },
+                dependencies: ["@monologue/docs#build"],
+                dependents: [],
+              },
+            ],
+          },
+        ],
+      ]),
+    });
+
+    expect(zones.map((zone) => zone.prIds)).toEqual([["pr1", "pr2"]]);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  computeAffectedTargetsByPr,
+  indexPrsByTargetId,
+} from "./affected_targets_by_pr";
+import { type TargetRef } from "./compute_transitive_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+export type SharedTarget = {
+  target: TargetRef;
+  // PRs in the zone whose affected sets include this target
+  prIds: string[];
+};
+
+export type MergeQueueZone = {
+  prIds: string[];
+  // Union of the affected targets of every PR in the zone
+  affectedTargets: TargetRef[];
+  // Targets affected by more than one PR in the zone; these forced the PRs together
+  sharedTargets: SharedTarget[];
+};
+
+function find(parents: Map<string, string>, prId: string): string {
+  let root = prId;
+  while (parents.get(root) !== root) {
+    root = parents.get(root)!;
+  }
+  // Path compression
+  let current = prId;
+  while (current !== root) {
+    const next = parents.get(current)!;
+    parents.set(current, root);
+    current = next;
+  }
+  return root;
+}
+
+/**
+ * Partitions PRs into merge queue zones.
+ * Each PR's affected set is computed against a DAG hydrated from the baseline and every PR,
+ * and PRs whose affected sets overlap (transitively) are grouped into the same zone.
+ * Zones are disjoint and ordered by the first PR they contain, in prTargets iteration order.
+ */
+export function partitionIntoZones({
+  baselineTargets,
+  prTargets,
+}: {
+  baselineTargets: CachedBuildTargets;
+  prTargets: Map<string, CachedBuildTargets>;
+}): MergeQueueZone[] {
+  const { targetIdToPrIds, targetIdToTarget } = indexPrsByTargetId(
+    computeAffectedTargetsByPr({ baselineTargets, prTargets })
+  );
+
+  const parents = new Map<string, string>();
+  for (const prId of prTargets.keys()) {
+    parents.set(prId, prId);
+  }
+
+  for (const prIds of targetIdToPrIds.values()) {
+    for (let i = 1; i < prIds.length; i++) {
+      parents.set(find(parents, prIds[i]), find(parents, prIds[0]));
+    }
+  }
+
+  const rootToZone = new Map<string, MergeQueueZone>();
+  for (const prId of prTargets.keys()) {
+    const root = find(parents, prId);
+    if (!rootToZone.has(root)) {
+      rootToZone.set(root, {
+        prIds: [],
+        affectedTargets: [],
+        sharedTargets: [],
+      });
+    }
+    rootToZone.get(root)!.prIds.push(prId);
+  }
+
+  for (const [targetId, prIds] of targetIdToPrIds) {
+    const zone = rootToZone.get(find(parents, prIds[0]))!;
+    const target = targetIdToTarget.get(targetId)!;
+    zone.affectedTargets.push(target);
+    if (prIds.length > 1) {
+      zone.sharedTargets.push({ target, prIds });
+    }
+  }
+
+  return [...rootToZone.values()];
+}
@@ -0,0 +1,411 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCachedTargetsForCommit,
+  getStorageKey,
+  InvalidCachedTargetsError,
+} from "./get_cached_targets";
+import {
+  normalizeCachedBuildTargets,
+  putCachedTargetsForCommit,
+  StorageClientNotWritableError,
+  type WritableCachedBuildTargets,
+} from "./put_cached_targets";
+import type { StorageClient } from "./types";
+
+function createStorageClient() {
+  const objects = new Map<string, Buffer | string>();
+  const storageClient: StorageClient = {
+    getObjectOrNull: async (key) => {
+      const data = objects.get(key);
+      return data === undefined ? null : { data };
+    },
+    putObject: async (key, data) => {
+      objects.set(key, data);
+    },
+  };
+  return { objects, storageClient };
+}
+
+describe("normalizeCachedBuildTargets", () => {
+  it("should sort and deduplicate lists", () => {
+    const result = normalizeCachedBuildTargets({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: ["@monologue/server", "@monologue/api", "@monologue/server"],
+      graph: [
+        {
+          target: { targetId: "@monologue/utils#build" },
+          dependencies: [],
+          dependents: [
+            "@monologue/server#build",
+            "@monologue/api#build",
+            "@monologue/server#build",
+          ],
+        },
+        {
+          target: { targetId: "@monologue/api#build" },
+          dependencies: ["@monologue/utils#build"],
+          dependents: [],
+        },
+      ],
+    });
+
+    expect(result).toEqual({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: ["@monologue/api", "@monologue/server"],
+      graph: [
+        {
+          target: { targetId: "@monologue/api#build" },
+          dependencies: ["@monologue/utils#build"],
+          dependents: [],
+        },
+        {
+          target: { targetId: "@monologue/utils#build" },
+          dependencies: [],
+          dependents: ["@monologue/api#build", "@monologue/server#build"],
+        },
+      ],
+    });
+  });
+
+  it("should fill in missing dependents from dependencies", () => {
+    const result = normalizeCachedBuildTargets({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: [],
+      graph: [
+        { target: { targetId: "@monologue/utils#build" }, dependencies: [] },
+        {
+          target: { targetId: "@monologue/server#build" },
+          dependencies: ["@monologue/utils#build"],
+        },
+        {
+          target: { targetId: "@monologue/api#build" },
+          dependencies: ["@monologue/utils#build"],
+          dependents: [],
+        },
+      ],
+    });
+
+    expect(result.graph).toEqual([
+      {
+        target: { targetId: "@monologue/api#build" },
+        dependencies: ["@monologue/utils#build"],
+        dependents: [],
+      },
+      {
+        target: { targetId: "@monologue/server#build" },
+        dependencies: ["@monologue/utils#build"],
+        dependents: [],
+      },
+      {
+        target: { targetId: "@monologue/utils#build" },
+        dependencies: [],
+        dependents: ["@monologue/api#build", "@monologue/server#build"],
+      },
+    ]);
+  });
+
+  it("should merge duplicate targets and normalize removals", () => {
+    const result = normalizeCachedBuildTargets({
+      version: 3,
+      mode: "filtered",
+      baseSha: "base123",
+      headSha: "abc123",
+      targetIds: [],
+      graph: [
+        {
+          target: { targetId: "@monologue/server#build" },
+          dependencies: ["@monologue/utils#build"],
+          dependents: [],
+        },
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/server",
+          },
+          dependencies: ["@monologue/db-client#build"],
+          dependents: [],
+        },
+      ],
+      removedTargetIds: ["@monologue/b#build", "@monologue/a#build"],
+      removedEdges: [
+        {
+          dependencyId: "@monologue/b#build",
+          dependentId: "@monologue/c#build",
+        },
+        {
+          dependencyId: "@monologue/a#build",
+          dependentId: "@monologue/c#build",
+        },
+        {
+          dependencyId: "@monologue/b#build",
+          dependentId: "@monologue/c#build",
+        },
+      ],
+    });
+
+    expect(result).toEqual({
+      version: 3,
+      mode: "filtered",
+      baseSha: "base123",
+      headSha: "abc123",
+      targetIds: [],
+      graph: [
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/server",
+          },
+          dependencies: [
+            "@monologue/db-client#build",
+            "@monologue/utils#build",
+          ],
+          dependents: [],
+        },
+      ],
+      removedTargetIds: ["@monologue/a#build", "@monologue/b#build"],
+      removedEdges: [
+        {
+          dependencyId: "@monologue/a#build",
+          dependentId: "@monologue/c#build",
+        },
+        {
+          dependencyId: "@monologue/b#build",
+          dependentId: "@monologue/c#build",
+        },
+      ],
+    });
+  });
+
+  it("should keep a duplicate target's name and package root when a later declaration omits them", () => {
+    const result = normalizeCachedBuildTargets({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: [],
+      graph: [
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/server",
+            packageRoot: "apps/server",
+          },
+          dependencies: [],
+        },
+        {
+          target: { targetId: "@monologue/server#build" },
+          dependencies: ["@monologue/utils#build"],
+        },
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            packageRoot: "services/server",
+          },
+          dependencies: [],
+        },
+      ],
+    });
+
+    expect(result.graph).toEqual([
+      {
+        target: {
+          targetId: "@monologue/server#build",
+          targetName: "@monologue/server",
+          packageRoot: "services/server",
+        },
+        dependencies: ["@monologue/utils#build"],
+        dependents: [],
+      },
+    ]);
+  });
+
+  it("should merge edge kinds per edge, later declarations winning", () => {
+    const result = normalizeCachedBuildTargets({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: [],
+      graph: [
+        {
+          target: { targetId: "@monologue/server#build" },
+          dependencies: ["@monologue/utils#build", "@monologue/types#build"],
+          dependencyKinds: {
+            "@monologue/utils#build": "dev",
+            "@monologue/types#build": "type",
+          },
+        },
+        {
+          target: { targetId: "@monologue/server#build" },
+          dependencies: [],
+          dependencyKinds: { "@monologue/utils#build": "runtime" },
+        },
+      ],
+    });
+
+    expect(Object.entries(result.graph[0].dependencyKinds ?? {})).toEqual([
+      ["@monologue/types#build", "type"],
+      ["@monologue/utils#build", "runtime"],
+    ]);
+    expect(result.graph[0].dependentKinds).toBeUndefined();
+  });
+});
+
+describe("putCachedTargetsForCommit", () => {
+  it("should write payloads that getCachedTargetsForCommit can read back", async () => {
+    const { objects, storageClient } = createStorageClient();
+    const cachedTargets: WritableCachedBuildTargets = {
+      version: 3,
+      mode: "filtered",
+      baseSha: "base123",
+      headSha: "abc123",
+      targetIds: ["@monologue/server"],
+      graph: [
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/server",
+          },
+          dependencies: [],
+        },
+      ],
+    };
+
+    const written = await putCachedTargetsForCommit({
+      cachedTargets,
+      storageClient,
+    });
+
+    expect([...objects.keys()]).toEqual(["commit-targets/partial-abc123.json"]);
+    expect(
+      await getCachedTargetsForCommit({
+        commitSha: "abc123",
+        kind: "partial",
+        storageClient,
+      })
+    ).toEqual(written);
+  });
+
+  it("should use the full kind for full-dag payloads and custom keyGenerator", async () => {
+    const { objects, storageClient } = createStorageClient();
+
+    await putCachedTargetsForCommit({
+      cachedTargets: {
+        version: 3,
+        mode: "full-dag",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+      },
+      storageClient,
+      keyGenerator: (sha, kind) => `custom/${kind}/${sha}`,
+    });
+
+    expect([...objects.keys()]).toEqual(["custom/full/abc123"]);
+  });
+
+  ["gzip" as const, "brotli" as const].forEach((compression) => {
+    it(`should write ${compression} payloads to the compressed key`, async () => {
+      const { objects, storageClient } = createStorageClient();
+
+      const written = await putCachedTargetsForCommit({
+        cachedTargets: {
+          version: 3,
+          mode: "full-dag",
+          headSha: "abc123",
+          targetIds: [],
+          graph: [],
+        },
+        storageClient,
+        compression,
+      });
+
+      const key = getStorageKey("abc123", "full", { compression });
+      expect([...objects.keys()]).toEqual([key]);
+      expect(
+        await getCachedTargetsForCommit({
+          commitSha: "abc123",
+          kind: "full",
+          storageClient,
+          compression,
+        })
+      ).toEqual(written);
+    });
+  });
+
+  [
+    {
+      desc: "an unsupported version",
+      cachedTargets: {
+        version: 2,
+        mode: "full-dag",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+      },
+    },
+    {
+      desc: "a target without dependencies",
+      cachedTargets: {
+        version: 3,
+        mode: "full-dag",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [{ target: { targetId: "@monologue/utils#build" } }],
+      },
+    },
+    {
+      desc: "a missing graph",
+      cachedTargets: {
+        version: 3,
+        mode: "full-dag",
+        headSha: "abc123",
+        targetIds: [],
+      },
+    },
+    {
+      desc: "a null removed edge",
+      cachedTargets: {
+        version: 3,
+        mode: "filtered",
+        baseSha: "base123",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+        removedEdges: [null],
+      },
+    },
+  ].forEach((tc) => {
+    it(`should throw InvalidCachedTargetsError for ${tc.desc}`, async () => {
+      const { objects, storageClient } = createStorageClient();
+
+      await expect(
+        putCachedTargetsForCommit({
+          cachedTargets:
+            tc.cachedTargets as unknown as WritableCachedBuildTargets,
+          storageClient,
+        })
+      ).rejects.toThrow(InvalidCachedTargetsError);
+      expect(objects.size).toBe(0);
+    });
+  });
+
+  it("should throw StorageClientNotWritableError without putObject", async () => {
+    await expect(
+      putCachedTargetsForCommit({
+        cachedTargets: {
+          version: 3,
+          mode: "full-dag",
+          headSha: "abc123",
+          targetIds: [],
+          graph: [],
+        },
+        storageClient: { getObjectOrNull: async () => null },
+      })
+    ).rejects.toThrow(StorageClientNotWritableError);
+  });
+});
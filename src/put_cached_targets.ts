@@ -0,0 +1,228 @@
+import {
+  compressPayload,
+  getCompressionKeySuffix,
+  type PayloadCompression,
+} from "./compression";
+import { getStorageKey, InvalidCachedTargetsError } from "./get_cached_targets";
+import { z } from "zod";
+import {
+  type CachedBuildTargets,
+  CachedBuildTargetsSchema,
+  type Target,
+  TargetSchema,
+} from "./schemas";
+import type { StorageClient } from "./types";
+
+/**
+ * Target as accepted by writers: dependents may be omitted and are then derived
+ * from the dependencies declared by other targets in the same payload
+ */
+export const WritableTargetSchema = TargetSchema.extend({
+  dependents: z.optional(z.array(z.string())),
+});
+
+export type WritableTarget = z.infer<typeof WritableTargetSchema>;
+
+const [FullDagSchema, FilteredSchema] = CachedBuildTargetsSchema.options;
+
+/**
+ * Cached build targets as accepted by writers, i.e. with WritableTarget graph nodes
+ */
+export const WritableCachedBuildTargetsSchema = z.discriminatedUnion("mode", [
+  FullDagSchema.extend({ graph: z.array(WritableTargetSchema) }),
+  FilteredSchema.extend({ graph: z.array(WritableTargetSchema) }),
+]);
+
+export type WritableCachedBuildTargets = z.infer<
+  typeof WritableCachedBuildTargetsSchema
+>;
+
+export class StorageClientNotWritableError extends Error {
+  constructor() {
+    super("Storage client does not implement putObject");
+    this.name = "StorageClientNotWritableError";
+  }
+}
+
+// Code unit order rather than localeCompare, so output doesn't depend on the writer's locale
+function compareStrings(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortedUnique(values: string[]) {
+  return [...new Set(values)].sort(compareStrings);
+}
+
+function sortedRecord<T>(record: Record<string, T>) {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => compareStrings(a, b))
+  );
+}
+
+/**
+ * Normalizes a payload before it is written: merges duplicate targets, fills in missing
+ * dependents from dependencies, and sorts and deduplicates every list so identical graphs
+ * always serialize identically.
+ */
+export function normalizeCachedBuildTargets(
+  cachedTargets: WritableCachedBuildTargets
+): CachedBuildTargets {
+  // Merge duplicate targets; the last declared name and package root win, and a declaration
+  // that omits one keeps the earlier value, matching buildHydratedDag
+  const targetIdToNode = new Map<string, WritableTarget>();
+  for (const node of cachedTargets.graph) {
+    const existing = targetIdToNode.get(node.target.targetId);
+    if (!existing) {
+      targetIdToNode.set(node.target.targetId, {
+        target: { ...node.target },
+        dependencies: [...node.dependencies],
+        dependents: node.dependents && [...node.dependents],
+        dependencyKinds: node.dependencyKinds && { ...node.dependencyKinds },
+        dependentKinds: node.dependentKinds && { ...node.dependentKinds },
+      });
+      continue;
+    }
+    existing.target = {
+      targetId: node.target.targetId,
+      targetName: node.target.targetName ?? existing.target.targetName,
+      packageRoot: node.target.packageRoot ?? existing.target.packageRoot,
+    };
+    existing.dependencies.push(...node.dependencies);
+    if (node.dependents) {
+      existing.dependents = [
+        ...(existing.dependents ?? []),
+        ...node.dependents,
+      ];
+    }
+    // Later declarations win per edge, like the name
+    if (node.dependencyKinds) {
+      existing.dependencyKinds = {
+        ...existing.dependencyKinds,
+        ...node.dependencyKinds,
+      };
+    }
+    if (node.dependentKinds) {
+      existing.dependentKinds = {
+        ...existing.dependentKinds,
+        ...node.dependentKinds,
+      };
+    }
+  }
+
+  // Reverse edges for targets that didn't declare dependents
+  const targetIdToDerivedDependentIds = new Map<string, string[]>();
+  for (const node of targetIdToNode.values()) {
+    for (const dependencyId of node.dependencies) {
+      if (!targetIdToDerivedDependentIds.has(dependencyId)) {
+        targetIdToDerivedDependentIds.set(dependencyId, []);
+      }
+      targetIdToDerivedDependentIds
+        .get(dependencyId)!
+        .push(node.target.targetId);
+    }
+  }
+
+  const graph: Target[] = [...targetIdToNode.values()]
+    .map((node) => ({
+      target: node.target,
+      dependencies: sortedUnique(node.dependencies),
+      dependents: sortedUnique(
+        node.dependents ??
+          targetIdToDerivedDependentIds.get(node.target.targetId) ??
+          []
+      ),
+      ...(node.dependencyKinds && {
+        dependencyKinds: sortedRecord(node.dependencyKinds),
+      }),
+      ...(node.dependentKinds && {
+        dependentKinds: sortedRecord(node.dependentKinds),
+      }),
+    }))
+    .sort((a, b) => compareStrings(a.target.targetId, b.target.targetId));
+
+  if (cachedTargets.mode === "full-dag") {
+    return {
+      ...cachedTargets,
+      targetIds: sortedUnique(cachedTargets.targetIds),
+      graph,
+    };
+  }
+
+  const { removedTargetIds, removedEdges, ...rest } = cachedTargets;
+  const removedEdgeKeys = new Set<string>();
+  return {
+    ...rest,
+    targetIds: sortedUnique(cachedTargets.targetIds),
+    graph,
+    ...(removedTargetIds && {
+      removedTargetIds: sortedUnique(removedTargetIds),
+    }),
+    ...(removedEdges && {
+      removedEdges: removedEdges
+        .filter((edge) => {
+          const key = JSON.stringify([edge.dependencyId, edge.dependentId]);
+          if (removedEdgeKeys.has(key)) {
+            return false;
+          }
+          removedEdgeKeys.add(key);
+          return true;
+        })
+        .sort(
+          (a, b) =>
+            compareStrings(a.dependencyId, b.dependencyId) ||
+            compareStrings(a.dependentId, b.dependentId)
+        ),
+    }),
+  };
+}
+
+/**
+ * Validates, normalizes and writes cached build targets for a commit.
+ * The raw payload is validated against WritableCachedBuildTargetsSchema before it is
+ * normalized, so malformed input (e.g. hand-built JSON) fails with InvalidCachedTargetsError,
+ * and the normalized payload is checked again against the stored schema.
+ * The storage key is derived the same way as getCachedTargetsForCommit: commitSha is the
+ * payload's headSha and kind is "full" for full-dag payloads, "partial" for filtered ones.
+ * Returns the normalized payload that was written.
+ */
+export async function putCachedTargetsForCommit({
+  cachedTargets,
+  storageClient,
+  keyGenerator = getStorageKey,
+  compression,
+}: {
+  cachedTargets: WritableCachedBuildTargets;
+  storageClient: StorageClient;
+  keyGenerator?: (commitSha: string, kind: "full" | "partial") => string;
+  // Compresses the payload and appends ".gz" / ".br" to the key
+  compression?: PayloadCompression;
+}) {
+  if (!storageClient.putObject) {
+    throw new StorageClientNotWritableError();
+  }
+
+  const commitSha = cachedTargets.headSha;
+  const writableParseResult =
+    WritableCachedBuildTargetsSchema.safeParse(cachedTargets);
+  if (!writableParseResult.success) {
+    throw new InvalidCachedTargetsError(commitSha, writableParseResult.error);
+  }
+
+  const parseResult = CachedBuildTargetsSchema.safeParse(
+    normalizeCachedBuildTargets(writableParseResult.data)
+  );
+  if (!parseResult.success) {
+    throw new InvalidCachedTargetsError(commitSha, parseResult.error);
+  }
+
+  const kind = parseResult.data.mode === "full-dag" ? "full" : "partial";
+  const storageKey =
+    keyGenerator(commitSha, kind) +
+    (compression ? getCompressionKeySuffix(compression) : "");
+  await storageClient.putObject(
+    storageKey,
+    compressPayload({ data: JSON.stringify(parseResult.data), compression })
+  );
+
+  return parseResult.data;
+}
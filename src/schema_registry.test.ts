@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  SUPPORTED_CACHED_BUILD_TARGETS_VERSIONS,
+  safeParseCachedBuildTargets,
+} from "./schema_registry";
+import { CACHED_BUILD_TARGETS_VERSION } from "./schemas";
+
+describe("safeParseCachedBuildTargets", () => {
+  [
+    {
+      desc: "should migrate v2 filtered payloads to the current version",
+      data: {
+        version: 2,
+        mode: "filtered",
+        baseSha: "base123",
+        headSha: "abc123",
+        targetIds: ["@monologue/server"],
+        graph: [],
+      },
+      expected: {
+        success: true,
+        sourceVersion: 2,
+        data: {
+          version: CACHED_BUILD_TARGETS_VERSION,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "abc123",
+          targetIds: ["@monologue/server"],
+          graph: [],
+        },
+      },
+    },
+    {
+      desc: "should parse current version payloads as-is",
+      data: {
+        version: 3,
+        mode: "filtered",
+        baseSha: "base123",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+        removedTargetIds: ["@monologue/legacy#build"],
+      },
+      expected: {
+        success: true,
+        sourceVersion: 3,
+        data: {
+          version: 3,
+          mode: "filtered",
+          baseSha: "base123",
+          headSha: "abc123",
+          targetIds: [],
+          graph: [],
+          removedTargetIds: ["@monologue/legacy#build"],
+        },
+      },
+    },
+    {
+      desc: "should reject versions that are too new",
+      data: {
+        version: 99,
+        mode: "full-dag",
+        headSha: "abc123",
+        targetIds: [],
+        graph: [],
+      },
+      expected: { success: false, reason: "unsupported-version", version: 99 },
+    },
+    {
+      desc: "should reject versions that are too old",
+      data: { version: 1 },
+      expected: { success: false, reason: "unsupported-version", version: 1 },
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(safeParseCachedBuildTargets(tc.data)).toEqual(tc.expected);
+    });
+  });
+
+  it("should report invalid payloads for their declared version", () => {
+    const result = safeParseCachedBuildTargets({
+      version: 2,
+      mode: "filtered",
+      headSha: "abc123",
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.reason).toEqual("invalid");
+  });
+
+  it("should report payloads without a version as invalid", () => {
+    const result = safeParseCachedBuildTargets({ mode: "full-dag" });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.reason).toEqual("invalid");
+  });
+
+  it("should list supported versions in ascending order", () => {
+    expect(SUPPORTED_CACHED_BUILD_TARGETS_VERSIONS).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,106 @@
+import { type z } from "zod";
+import {
+  CACHED_BUILD_TARGETS_VERSION,
+  type CachedBuildTargets,
+  CachedBuildTargetsSchema,
+  type CachedBuildTargetsV2,
+  CachedBuildTargetsV2Schema,
+} from "./schemas";
+
+type SchemaRegistryEntry = {
+  schema: z.ZodTypeAny;
+  // Validates a payload of this version and migrates it to the current version
+  parse: (
+    data: unknown
+  ) =>
+    | { success: true; data: CachedBuildTargets }
+    | { success: false; error: z.ZodError };
+};
+
+/**
+ * Pairs a version's schema with the migration from its parsed shape to the current one,
+ * so each migration is type-checked against the schema it follows
+ */
+function registryEntry<Schema extends z.ZodTypeAny>(
+  schema: Schema,
+  migrate: (payload: z.output<Schema>) => CachedBuildTargets
+): SchemaRegistryEntry {
+  return {
+    schema,
+    parse: (data) => {
+      const parseResult = schema.safeParse(data);
+      return parseResult.success
+        ? { success: true, data: migrate(parseResult.data) }
+        : { success: false, error: parseResult.error };
+    },
+  };
+}
+
+/**
+ * v2 → v3: v3 only adds optional removal fields to filtered mode, so no removals are implied
+ */
+function migrateV2ToV3(payload: CachedBuildTargetsV2): CachedBuildTargets {
+  return { ...payload, version: 3 };
+}
+
+/**
+ * Supported cached build targets payload versions, keyed by version number
+ * Older versions migrate step by step, e.g. a v1 entry would pass
+ * `(payload) => migrateV2ToV3(migrateV1ToV2(payload))`
+ */
+export const CACHED_BUILD_TARGETS_SCHEMA_REGISTRY: Record<
+  number,
+  SchemaRegistryEntry
+> = {
+  2: registryEntry(CachedBuildTargetsV2Schema, migrateV2ToV3),
+  [CACHED_BUILD_TARGETS_VERSION]: registryEntry(
+    CachedBuildTargetsSchema,
+    (payload) => payload
+  ),
+};
+
+export const SUPPORTED_CACHED_BUILD_TARGETS_VERSIONS = Object.keys(
+  CACHED_BUILD_TARGETS_SCHEMA_REGISTRY
+)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+export type ParseCachedBuildTargetsResult =
+  | { success: true; data: CachedBuildTargets; sourceVersion: number }
+  | { success: false; reason: "unsupported-version"; version: number }
+  | { success: false; reason: "invalid"; error: unknown };
+
+/**
+ * Validates a raw payload against the schema for its declared version and migrates it
+ * to the current in-memory shape. Payloads without a numeric version are validated
+ * against the current schema so the error describes what's missing.
+ */
+export function safeParseCachedBuildTargets(
+  data: unknown
+): ParseCachedBuildTargetsResult {
+  const version =
+    typeof data === "object" && data !== null && "version" in data
+      ? data.version
+      : undefined;
+
+  if (typeof version !== "number") {
+    const parseResult = CachedBuildTargetsSchema.safeParse(data);
+    return parseResult.success
+      ? {
+          success: true,
+          data: parseResult.data,
+          sourceVersion: CACHED_BUILD_TARGETS_VERSION,
+        }
+      : { success: false, reason: "invalid", error: parseResult.error };
+  }
+
+  const entry = CACHED_BUILD_TARGETS_SCHEMA_REGISTRY[version];
+  if (!entry) {
+    return { success: false, reason: "unsupported-version", version };
+  }
+
+  const parseResult = entry.parse(data);
+  return parseResult.success
+    ? { success: true, data: parseResult.data, sourceVersion: version }
+    : { success: false, reason: "invalid", error: parseResult.error };
+}
@@ -9,10 +9,20 @@ export const TargetInfoSchema = z.object({
   targetId: z.string(),
   // Target name, e.g., "@monologue/server" or "core"
   targetName: z.optional(z.string()),
+  // Package directory relative to the repo root, e.g., "apps/server" ("" for the root package)
+  packageRoot: z.optional(z.string()),
 });
 
 export type TargetInfo = z.infer<typeof TargetInfoSchema>;
 
+/**
+ * Kind of a dependency edge: needed at runtime, only for development (tests, tooling),
+ * or only for type checking
+ */
+export const EdgeKindSchema = z.enum(["runtime", "dev", "type"]);
+
+export type EdgeKind = z.infer<typeof EdgeKindSchema>;
+
 /**
  * Build tool agnostic target schema (owned by us)
  * This is our internal contract for representing build targets
@@ -24,14 +34,31 @@ export const TargetSchema = z.object({
   dependencies: z.array(z.string()),
   // Target IDs that depend on this target
   dependents: z.array(z.string()),
+  // Kind of each edge to a dependency, keyed by dependency target ID; unlisted edges have no kind
+  dependencyKinds: z.optional(z.record(z.string(), EdgeKindSchema)),
+  // Kind of each edge to a dependent, keyed by dependent target ID
+  dependentKinds: z.optional(z.record(z.string(), EdgeKindSchema)),
 });
 
 export type Target = z.infer<typeof TargetSchema>;
 
-export const CACHED_BUILD_TARGETS_VERSION = 2;
+/**
+ * Dependency edge removed by a branch, identified by both of its endpoints
+ */
+export const RemovedEdgeSchema = z.object({
+  // Target ID that was depended on
+  dependencyId: z.string(),
+  // Target ID that no longer depends on dependencyId
+  dependentId: z.string(),
+});
+
+export type RemovedEdge = z.infer<typeof RemovedEdgeSchema>;
+
+export const CACHED_BUILD_TARGETS_VERSION = 3;
 
 /**
- * Schema for cached build targets per commit
+ * Schema for cached build targets per commit (current version)
+ * Older payload versions are upgraded to this shape by the schema registry
  */
 export const CachedBuildTargetsSchema = z.discriminatedUnion("mode", [
   // Full DAG mode: baseSha is null (complete dependency graph for main branch)
@@ -54,7 +81,34 @@ export const CachedBuildTargetsSchema = z.discriminatedUnion("mode", [
     targetIds: z.array(z.string()),
     // Targets with their dependency relationships (build-tool agnostic)
     graph: z.array(TargetSchema),
+    // Target IDs deleted on this branch relative to baseSha
+    removedTargetIds: z.optional(z.array(z.string())),
+    // Dependency edges dropped on this branch relative to baseSha
+    removedEdges: z.optional(z.array(RemovedEdgeSchema)),
+  }),
+]);
+
+export type CachedBuildTargets = z.infer<typeof CachedBuildTargetsSchema>;
+
+/**
+ * Schema for v2 cached build targets (no removals in filtered mode)
+ */
+export const CachedBuildTargetsV2Schema = z.discriminatedUnion("mode", [
+  z.object({
+    version: z.literal(2),
+    mode: z.literal("full-dag"),
+    headSha: z.string(),
+    targetIds: z.array(z.string()),
+    graph: z.array(TargetSchema),
+  }),
+  z.object({
+    version: z.literal(2),
+    mode: z.literal("filtered"),
+    baseSha: z.string(),
+    headSha: z.string(),
+    targetIds: z.array(z.string()),
+    graph: z.array(TargetSchema),
   }),
 ]);
 
-export type CachedBuildTargets = z.infer<typeof CachedBuildTargetsSchema>;
\ No newline at end of file
+export type CachedBuildTargetsV2 = z.infer<typeof CachedBuildTargetsV2Schema>;
@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getCachedTargetsForCommit, getStorageKey } from "./get_cached_targets";
+import * as schemaRegistry from "./schema_registry";
+import {
+  createCachingStorageClient,
+  createFileSystemStorageClient,
+  createInMemoryStorageClient,
+} from "./storage_clients";
+import type { StorageClient } from "./types";
+
+const cachedTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "abc123",
+  targetIds: ["@monologue/server"],
+  graph: [
+    {
+      target: {
+        targetId: "@monologue/server#build",
+        targetName: "@monologue/server",
+      },
+      dependencies: [],
+      dependents: [],
+    },
+  ],
+};
+
+// Counts getObjectOrNull calls and lets tests resolve them by hand
+function createDeferredStorageClient() {
+  const pending: ((data: string | null) => void)[] = [];
+  const storageClient: StorageClient = {
+    getObjectOrNull: vi.fn(
+      (_key: string) =>
+        new Promise<{ data: string } | null>((resolve) =>
+          pending.push((data) => resolve(data === null ? null : { data }))
+        )
+    ),
+    putObject: vi.fn(async () => {}),
+  };
+  return { storageClient, pending };
+}
+
+describe("createFileSystemStorageClient", () => {
+  let rootDir: string | undefined;
+
+  afterEach(() => {
+    if (rootDir) {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should write objects to nested directories and read them back", async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+    const storageClient = createFileSystemStorageClient({ rootDir });
+
+    await storageClient.putObject!("commit-targets/full-abc.json", "payload");
+
+    const result = await storageClient.getObjectOrNull(
+      "commit-targets/full-abc.json"
+    );
+    expect(result?.data.toString()).toEqual("payload");
+    expect(
+      await storageClient.getObjectOrNull("commit-targets/missing.json")
+    ).toBeNull();
+  });
+});
+
+describe("createInMemoryStorageClient", () => {
+  it("should serve seeded objects and record writes", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: { a: "1" },
+    });
+
+    await storageClient.putObject!("b", "2");
+
+    expect(await storageClient.getObjectOrNull("a")).toEqual({ data: "1" });
+    expect(await storageClient.getObjectOrNull("c")).toBeNull();
+    expect([...storageClient.objects.keys()]).toEqual(["a", "b"]);
+  });
+});
+
+describe("createCachingStorageClient", () => {
+  it("should share one fetch between concurrent requests for a key", async () => {
+    const { storageClient, pending } = createDeferredStorageClient();
+    const cachingClient = createCachingStorageClient({ storageClient });
+
+    const results = Promise.all([
+      cachingClient.getObjectOrNull("a"),
+      cachingClient.getObjectOrNull("a"),
+    ]);
+    pending[0]("1");
+
+    expect(await results).toEqual([{ data: "1" }, { data: "1" }]);
+    expect(await cachingClient.getObjectOrNull("a")).toEqual({ data: "1" });
+    expect(storageClient.getObjectOrNull).toHaveBeenCalledTimes(1);
+  });
+
+  it("should evict the least recently used key", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: { a: "1", b: "2", c: "3" },
+    });
+    const getObjectOrNull = vi.spyOn(storageClient, "getObjectOrNull");
+    const cachingClient = createCachingStorageClient({
+      storageClient,
+      maxEntries: 2,
+    });
+
+    await cachingClient.getObjectOrNull("a");
+    await cachingClient.getObjectOrNull("b");
+    await cachingClient.getObjectOrNull("a");
+    await cachingClient.getObjectOrNull("c");
+    await cachingClient.getObjectOrNull("a");
+    await cachingClient.getObjectOrNull("b");
+
+    expect(getObjectOrNull.mock.calls.map(([key]) => key)).toEqual([
+      "a",
+      "b",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("should evict by total bytes and skip objects larger than maxBytes", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: {
+        a: "1234",
+        b: Buffer.from("5678"),
+        c: "901",
+        big: "x".repeat(11),
+      },
+    });
+    const getObjectOrNull = vi.spyOn(storageClient, "getObjectOrNull");
+    const cachingClient = createCachingStorageClient({
+      storageClient,
+      maxBytes: 10,
+    });
+
+    await cachingClient.getObjectOrNull("a");
+    await cachingClient.getObjectOrNull("b");
+    await cachingClient.getObjectOrNull("c");
+    await cachingClient.getObjectOrNull("big");
+    await cachingClient.getObjectOrNull("big");
+    await cachingClient.getObjectOrNull("b");
+    await cachingClient.getObjectOrNull("c");
+    await cachingClient.getObjectOrNull("a");
+
+    expect(getObjectOrNull.mock.calls.map(([key]) => key)).toEqual([
+      "a",
+      "b",
+      "c",
+      "big",
+      "big",
+      "a",
+    ]);
+  });
+
+  it("should not cache missing keys", async () => {
+    const storageClient = createInMemoryStorageClient();
+    const cachingClient = createCachingStorageClient({ storageClient });
+
+    expect(await cachingClient.getObjectOrNull("a")).toBeNull();
+    storageClient.objects.set("a", "1");
+
+    expect(await cachingClient.getObjectOrNull("a")).toEqual({ data: "1" });
+  });
+
+  it("should invalidate keys on write, including in-flight fetches", async () => {
+    const { storageClient, pending } = createDeferredStorageClient();
+    const cachingClient = createCachingStorageClient({ storageClient });
+
+    const staleRead = cachingClient.getObjectOrNull("a");
+    await cachingClient.putObject!("a", "2");
+    pending[0]("1");
+    await staleRead;
+    const freshRead = cachingClient.getObjectOrNull("a");
+    pending[1]("2");
+
+    expect(await freshRead).toEqual({ data: "2" });
+    expect(storageClient.putObject).toHaveBeenCalledWith("a", "2");
+  });
+
+  it("should cache parsed cached targets across getCachedTargetsForCommit calls", async () => {
+    const storageClient = createInMemoryStorageClient({
+      objects: {
+        [getStorageKey("abc123", "full")]: JSON.stringify(cachedTargets),
+      },
+    });
+    const cachingClient = createCachingStorageClient({ storageClient });
+    const safeParse = vi.spyOn(schemaRegistry, "safeParseCachedBuildTargets");
+
+    const first = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient: cachingClient,
+    });
+    const second = await getCachedTargetsForCommit({
+      commitSha: "abc123",
+      kind: "full",
+      storageClient: cachingClient,
+    });
+
+    expect(second).toBe(first);
+    expect(safeParse).toHaveBeenCalledTimes(1);
+    safeParse.mockRestore();
+  });
+});
@@ -0,0 +1,188 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { StorageClient } from "./types";
+
+const DEFAULT_MAX_CACHE_ENTRIES = 100;
+const DEFAULT_MAX_CACHE_BYTES = 64 * 1024 * 1024;
+
+type StoredObject = { data: Buffer | string };
+
+/**
+ * Storage client that reads and writes keys as files below rootDir.
+ * Missing files resolve to null.
+ */
+export function createFileSystemStorageClient({
+  rootDir,
+}: {
+  rootDir: string;
+}): StorageClient {
+  return {
+    getObjectOrNull: async (key, options) => {
+      try {
+        return {
+          data: await fs.readFile(path.join(rootDir, key), {
+            signal: options?.signal,
+          }),
+        };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw err;
+      }
+    },
+    putObject: async (key, data) => {
+      const filePath = path.join(rootDir, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+  };
+}
+
+/**
+ * Storage client backed by a Map, for tests and local tooling.
+ * The returned `objects` map is live and can be inspected or modified directly.
+ */
+export function createInMemoryStorageClient({
+  objects = {},
+}: {
+  objects?: Record<string, Buffer | string>;
+} = {}): StorageClient & { objects: Map<string, Buffer | string> } {
+  const objectMap = new Map(Object.entries(objects));
+  return {
+    objects: objectMap,
+    getObjectOrNull: async (key) => {
+      const data = objectMap.get(key);
+      return data === undefined ? null : { data };
+    },
+    putObject: async (key, data) => {
+      objectMap.set(key, data);
+    },
+  };
+}
+
+type CacheEntry = {
+  object: StoredObject;
+  // Byte length of object.data, counted against maxBytes
+  size: number;
+  // Parsed results keyed by the parse function that produced them
+  parsed: Map<(data: Buffer | string, key: string) => unknown, unknown>;
+};
+
+/**
+ * Wraps a storage client with a least-recently-used cache bounded by maxEntries objects
+ * and maxBytes of raw data; objects larger than maxBytes are not cached. Parsed results
+ * are not counted, so leave headroom for them.
+ * Concurrent requests for the same key share one underlying fetch, and parsed objects
+ * (e.g. validated CachedBuildTargets from getCachedTargetsForCommit) are cached alongside
+ * the raw data so repeat lookups skip parsing.
+ * Missing keys and failed fetches are not cached. Writes through putObject invalidate
+ * the written key.
+ */
+export function createCachingStorageClient({
+  storageClient,
+  maxEntries = DEFAULT_MAX_CACHE_ENTRIES,
+  maxBytes = DEFAULT_MAX_CACHE_BYTES,
+}: {
+  storageClient: StorageClient;
+  maxEntries?: number;
+  maxBytes?: number;
+}): StorageClient {
+  // Map iteration order doubles as recency order: oldest first
+  const entries = new Map<string, CacheEntry>();
+  let totalBytes = 0;
+  // A fetch only caches its result if it is still the key's in-flight fetch, so writes
+  // drop the key here to keep fetches started before them from caching stale data
+  const inFlight = new Map<string, Promise<StoredObject | null>>();
+
+  function remove(key: string) {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      totalBytes -= entry.size;
+    }
+  }
+
+  function touch(key: string, entry: CacheEntry) {
+    remove(key);
+    if (entry.size > maxBytes) {
+      return;
+    }
+    entries.set(key, entry);
+    totalBytes += entry.size;
+    while (entries.size > maxEntries || totalBytes > maxBytes) {
+      remove(entries.keys().next().value!);
+    }
+  }
+
+  function createEntry(object: StoredObject): CacheEntry {
+    return {
+      object,
+      size: Buffer.byteLength(object.data),
+      parsed: new Map(),
+    };
+  }
+
+  async function getEntryOrNull(key: string): Promise<CacheEntry | null> {
+    const cached = entries.get(key);
+    if (cached) {
+      touch(key, cached);
+      return cached;
+    }
+
+    let request = inFlight.get(key);
+    if (!request) {
+      const settle = () => {
+        const isCurrent = inFlight.get(key) === request;
+        if (isCurrent) {
+          inFlight.delete(key);
+        }
+        return isCurrent;
+      };
+      request = storageClient.getObjectOrNull(key).then(
+        (object) => {
+          if (settle() && object) {
+            touch(key, createEntry(object));
+          }
+          return object;
+        },
+        (err) => {
+          settle();
+          throw err;
+        }
+      );
+      inFlight.set(key, request);
+    }
+
+    const object = await request;
+    if (!object) {
+      return null;
+    }
+    // Fall back to an uncached entry if the object was invalidated or evicted meanwhile
+    return entries.get(key) ?? createEntry(object);
+  }
+
+  return {
+    getObjectOrNull: async (key) => (await getEntryOrNull(key))?.object ?? null,
+    getParsedObjectOrNull: async <T>(
+      key: string,
+      parse: (data: Buffer | string, key: string) => T
+    ) => {
+      const entry = await getEntryOrNull(key);
+      if (!entry) {
+        return null;
+      }
+      if (!entry.parsed.has(parse)) {
+        entry.parsed.set(parse, parse(entry.object.data, key));
+      }
+      return entry.parsed.get(parse) as T;
+    },
+    putObject: storageClient.putObject
+      ? async (key, data) => {
+          remove(key);
+          inFlight.delete(key);
+          await storageClient.putObject!(key, data);
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseTargetId } from "./target_id";
+
+describe("parseTargetId", () => {
+  [
+    {
+      targetId: "@monologue/server#build",
+      expected: { packageName: "@monologue/server", task: "build" },
+    },
+    {
+      targetId: "//#lint",
+      expected: { packageName: "//", task: "lint" },
+    },
+    {
+      targetId: "pkg#a#test",
+      expected: { packageName: "pkg#a", task: "test" },
+    },
+    { targetId: "W12345", expected: { packageName: "W12345" } },
+  ].forEach((tc) => {
+    it(`should parse ${tc.targetId}`, () => {
+      expect(parseTargetId(tc.targetId)).toEqual(tc.expected);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Splits a `<package>#<task>` target ID at its last "#", e.g. "@monologue/server#build"
+ * → { packageName: "@monologue/server", task: "build" }.
+ * IDs without a "#" (such as Bazel labels) are returned whole, with no task.
+ */
+export function parseTargetId(targetId: string): {
+  packageName: string;
+  task?: string;
+} {
+  const separatorIndex = targetId.lastIndexOf("#");
+  if (separatorIndex === -1) {
+    return { packageName: targetId };
+  }
+  return {
+    packageName: targetId.slice(0, separatorIndex),
+    task: targetId.slice(separatorIndex + 1),
+  };
+}
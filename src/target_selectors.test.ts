@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { type CachedBuildTargets } from "./schemas";
+import {
+  parseTargetSelector,
+  resolveTargetSelectors,
+} from "./target_selectors";
+
+const baselineTargets: CachedBuildTargets = {
+  version: 3,
+  mode: "full-dag",
+  headSha: "base",
+  targetIds: [],
+  graph: [
+    ["@myorg/infra-db", "packages/infra-db", "build"],
+    ["@myorg/infra-db", "packages/infra-db", "test"],
+    ["@myorg/infra-queue", "packages/infra-queue", "build"],
+    ["@myorg/web", "apps/web", "build"],
+    ["@myorg/admin", "apps/admin", "lint"],
+  ].map(([name, packageRoot, task]) => ({
+    target: { targetId: `${name}#${task}`, targetName: name, packageRoot },
+    dependencies: [],
+    dependents: [],
+  })),
+};
+
+const hydratedDag = buildHydratedDag({
+  baselineTargets,
+  additionalTargets: [],
+});
+
+describe("parseTargetSelector", () => {
+  [
+    {
+      selector: "@myorg/web",
+      expected: { kind: "name", pattern: "@myorg/web", isGlob: false },
+    },
+    {
+      selector: "@myorg/infra-*",
+      expected: { kind: "name", pattern: "@myorg/infra-*", isGlob: true },
+    },
+    {
+      selector: "*#build",
+      expected: { kind: "target-id", pattern: "*#build", isGlob: true },
+    },
+    {
+      selector: "path:apps/**",
+      expected: { kind: "package-root", pattern: "apps/**", isGlob: true },
+    },
+  ].forEach((tc) => {
+    it(`should parse ${tc.selector}`, () => {
+      expect(parseTargetSelector(tc.selector)).toEqual(tc.expected);
+    });
+  });
+});
+
+describe("resolveTargetSelectors", () => {
+  [
+    {
+      desc: "should resolve exact names",
+      selectors: ["@myorg/web"],
+      expectedTargetIds: ["@myorg/web#build"],
+    },
+    {
+      desc: "should resolve name globs",
+      selectors: ["@myorg/infra-*"],
+      expectedTargetIds: [
+        "@myorg/infra-db#build",
+        "@myorg/infra-db#test",
+        "@myorg/infra-queue#build",
+      ],
+    },
+    {
+      desc: "should resolve task selectors",
+      selectors: ["*#build"],
+      expectedTargetIds: [
+        "@myorg/infra-db#build",
+        "@myorg/infra-queue#build",
+        "@myorg/web#build",
+      ],
+    },
+    {
+      desc: "should resolve exact target IDs",
+      selectors: ["@myorg/infra-db#test"],
+      expectedTargetIds: ["@myorg/infra-db#test"],
+    },
+    {
+      desc: "should resolve package root globs",
+      selectors: ["path:apps/**"],
+      expectedTargetIds: ["@myorg/admin#lint", "@myorg/web#build"],
+    },
+    {
+      desc: "should report selectors that matched nothing",
+      selectors: ["@myorg/web", "@myorg/mobile-*", "path:tools/**", "*#e2e"],
+      expectedTargetIds: ["@myorg/web#build"],
+      expectedUnmatched: ["@myorg/mobile-*", "path:tools/**", "*#e2e"],
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      const result = resolveTargetSelectors({
+        selectors: tc.selectors,
+        hydratedDag,
+      });
+
+      expect([...result.targetIdToSelector.keys()].sort()).toEqual(
+        tc.expectedTargetIds
+      );
+      expect(result.unmatchedSelectors).toEqual(tc.expectedUnmatched ?? []);
+    });
+  });
+
+  it("should attribute each target to the first selector that matched it", () => {
+    const result = resolveTargetSelectors({
+      selectors: ["@myorg/web", "path:apps/*"],
+      hydratedDag,
+    });
+
+    expect(result.targetIdToSelector.get("@myorg/web#build")).toBe(
+      "@myorg/web"
+    );
+    expect(result.targetIdToSelector.get("@myorg/admin#lint")).toBe(
+      "path:apps/*"
+    );
+  });
+
+  it("should resolve exact target IDs that don't look like target ID selectors", () => {
+    const result = resolveTargetSelectors({
+      selectors: ["W12345"],
+      hydratedDag: buildHydratedDag({
+        baselineTargets: {
+          ...baselineTargets,
+          graph: [
+            {
+              target: { targetId: "W12345", targetName: "core" },
+              dependencies: [],
+              dependents: [],
+            },
+          ],
+        },
+        additionalTargets: [],
+      }),
+    });
+
+    expect([...result.targetIdToSelector.keys()]).toEqual(["W12345"]);
+  });
+});
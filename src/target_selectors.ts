@@ -0,0 +1,110 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { globToRegExp } from "./glob";
+
+// Prefix for selectors matched against package roots, e.g. "path:apps/**"
+const PACKAGE_ROOT_PREFIX = "path:";
+
+export type TargetSelector = {
+  // What the pattern is matched against
+  kind: "name" | "target-id" | "package-root";
+  pattern: string;
+  // Whether the pattern contains `*` or `?`
+  isGlob: boolean;
+};
+
+/**
+ * Classifies a directPackageNames entry:
+ * - "path:<glob>" matches package roots, e.g. "path:apps/**"
+ * - anything with a "#" matches target IDs, e.g. "*#build" or "@myorg/web#*"
+ * - anything else matches package names, e.g. "@myorg/server" or "@myorg/infra-*"
+ * Name and target ID globs are not paths: `*` and `?` also match `/`.
+ */
+export function parseTargetSelector(selector: string): TargetSelector {
+  if (selector.startsWith(PACKAGE_ROOT_PREFIX)) {
+    const pattern = selector.slice(PACKAGE_ROOT_PREFIX.length);
+    return { kind: "package-root", pattern, isGlob: /[*?]/.test(pattern) };
+  }
+  return {
+    kind: selector.includes("#") ? "target-id" : "name",
+    pattern: selector,
+    isGlob: /[*?]/.test(selector),
+  };
+}
+
+function matchTargetSelector(
+  { kind, pattern, isGlob }: TargetSelector,
+  hydratedDag: HydratedDag
+) {
+  const { nameToTargetIds, targetIdToName, targetIdToPackageRoot } =
+    hydratedDag;
+
+  if (kind === "package-root") {
+    const regExp = globToRegExp(pattern);
+    return [...targetIdToPackageRoot]
+      .filter(([, packageRoot]) => regExp.test(packageRoot))
+      .map(([targetId]) => targetId);
+  }
+  if (!isGlob) {
+    if (kind === "name") {
+      return [...(nameToTargetIds.get(pattern) ?? [])];
+    }
+    return targetIdToName.has(pattern) ? [pattern] : [];
+  }
+
+  const regExp = globToRegExp(pattern, { matchSlash: true });
+  if (kind === "name") {
+    return [...nameToTargetIds]
+      .filter(([name]) => regExp.test(name))
+      .flatMap(([, targetIds]) => [...targetIds]);
+  }
+  return [...targetIdToName.keys()].filter((targetId) => regExp.test(targetId));
+}
+
+/**
+ * Resolves directPackageNames selectors (see parseTargetSelector) to direct target IDs.
+ * A selector that is exactly a package name in the DAG always resolves as that name, and
+ * otherwise one that is exactly a target ID resolves as that target, so plain names and IDs
+ * keep working whatever characters they contain.
+ * Returns each direct target ID with the first selector that matched it, and the
+ * selectors that matched nothing, in input order.
+ */
+export function resolveTargetSelectors({
+  selectors,
+  hydratedDag,
+}: {
+  selectors: string[];
+  hydratedDag: HydratedDag;
+}) {
+  const targetIdToSelector = new Map<string, string>();
+  const unmatchedSelectors: string[] = [];
+
+  for (const selector of selectors) {
+    const targetIds = hydratedDag.nameToTargetIds.has(selector)
+      ? hydratedDag.nameToTargetIds.get(selector)!
+      : hydratedDag.targetIdToName.has(selector)
+        ? [selector]
+        : matchTargetSelector(parseTargetSelector(selector), hydratedDag);
+
+    let matched = false;
+    for (const targetId of targetIds) {
+      matched = true;
+      if (!targetIdToSelector.has(targetId)) {
+        targetIdToSelector.set(targetId, selector);
+      }
+    }
+    if (!matched) {
+      unmatchedSelectors.push(selector);
+    }
+  }
+
+  return { targetIdToSelector, unmatchedSelectors };
+}
+
+/**
+ * Whether an unmatched selector still stands for a single, not-yet-known package
+ * (a literal name or target ID) rather than a pattern
+ */
+export function isLiteralTargetSelector(selector: string) {
+  const { kind, isGlob } = parseTargetSelector(selector);
+  return kind !== "package-root" && !isGlob;
+}
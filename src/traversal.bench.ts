@@ -0,0 +1,104 @@
+import { bench, describe } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { computeTransitiveDependencies } from "./compute_transitive_dependencies";
+import { computeTransitiveTargets } from "./compute_transitive_targets";
+import { type CachedBuildTargets } from "./schemas";
+
+const TARGET_COUNT = 50_000;
+const DEPENDENCIES_PER_TARGET = 4;
+const QUEUED_PR_COUNT = 100;
+
+// Deterministic PRNG so runs are comparable
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+    return seed / 2 ** 32;
+  };
+}
+
+// Each target depends on a few earlier targets, skewed towards recent ones so the
+// graph has long chains as well as widely shared leaves
+function createSyntheticBaseline(): CachedBuildTargets {
+  const random = createRandom(42);
+  const dependents: string[][] = Array.from({ length: TARGET_COUNT }, () => []);
+  const dependencies: string[][] = Array.from(
+    { length: TARGET_COUNT },
+    () => []
+  );
+  for (let i = 1; i < TARGET_COUNT; i++) {
+    for (let j = 0; j < DEPENDENCIES_PER_TARGET; j++) {
+      const dependency = Math.floor(i * random() ** 0.25);
+      dependencies[i].push(`pkg-${dependency}#build`);
+      dependents[dependency].push(`pkg-${i}#build`);
+    }
+  }
+
+  return {
+    version: 3,
+    mode: "full-dag",
+    headSha: "bench",
+    targetIds: [],
+    graph: dependents.map((targetDependents, i) => ({
+      target: { targetId: `pkg-${i}#build`, targetName: `pkg-${i}` },
+      dependencies: dependencies[i],
+      dependents: targetDependents,
+    })),
+  };
+}
+
+const baselineTargets = createSyntheticBaseline();
+const plainDag = buildHydratedDag({ baselineTargets, additionalTargets: [] });
+const indexedDag = buildHydratedDag({
+  baselineTargets,
+  additionalTargets: [],
+  indexed: true,
+});
+
+const random = createRandom(7);
+const prPackageNames = Array.from({ length: QUEUED_PR_COUNT }, () => [
+  `pkg-${Math.floor(random() * TARGET_COUNT)}`,
+]);
+
+describe(`buildHydratedDag (${TARGET_COUNT} targets)`, () => {
+  bench("map-based", () => {
+    buildHydratedDag({ baselineTargets, additionalTargets: [] });
+  });
+
+  bench("indexed", () => {
+    buildHydratedDag({ baselineTargets, additionalTargets: [], indexed: true });
+  });
+});
+
+describe(`computeTransitiveTargets (${QUEUED_PR_COUNT} queued PRs)`, () => {
+  bench("map-based", () => {
+    for (const directPackageNames of prPackageNames) {
+      computeTransitiveTargets({ directPackageNames, hydratedDag: plainDag });
+    }
+  });
+
+  bench("indexed", () => {
+    for (const directPackageNames of prPackageNames) {
+      computeTransitiveTargets({ directPackageNames, hydratedDag: indexedDag });
+    }
+  });
+});
+
+describe(`computeTransitiveDependencies (${QUEUED_PR_COUNT} queued PRs)`, () => {
+  bench("map-based", () => {
+    for (const directPackageNames of prPackageNames) {
+      computeTransitiveDependencies({
+        directPackageNames,
+        hydratedDag: plainDag,
+      });
+    }
+  });
+
+  bench("indexed", () => {
+    for (const directPackageNames of prPackageNames) {
+      computeTransitiveDependencies({
+        directPackageNames,
+        hydratedDag: indexedDag,
+      });
+    }
+  });
+});
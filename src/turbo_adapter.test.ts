@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { InvalidBuildGraphInputError } from "./create_cached_build_targets";
+import { cachedBuildTargetsFromTurboDryRun } from "./turbo_adapter";
+
+const dryRun = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "fixtures/turbo_dry_run.json"), "utf-8")
+);
+
+describe("cachedBuildTargetsFromTurboDryRun", () => {
+  it("should build a full-dag payload from dry run tasks", () => {
+    const result = cachedBuildTargetsFromTurboDryRun({
+      dryRun,
+      headSha: "abc123",
+    });
+
+    expect(result).toEqual({
+      version: 3,
+      mode: "full-dag",
+      headSha: "abc123",
+      targetIds: ["@myorg/server", "@myorg/utils", "@myorg/web"],
+      graph: [
+        {
+          target: {
+            targetId: "@myorg/server#build",
+            targetName: "@myorg/server",
+            packageRoot: "apps/server",
+          },
+          dependencies: ["@myorg/utils#build"],
+          dependents: [],
+        },
+        {
+          target: {
+            targetId: "@myorg/utils#build",
+            targetName: "@myorg/utils",
+            packageRoot: "packages/utils",
+          },
+          dependencies: [],
+          dependents: ["@myorg/server#build", "@myorg/web#build"],
+        },
+        {
+          target: {
+            targetId: "@myorg/web#build",
+            targetName: "@myorg/web",
+            packageRoot: "apps/web",
+          },
+          dependencies: ["@myorg/utils#build"],
+          dependents: [],
+        },
+      ],
+    });
+  });
+
+  it("should build a filtered payload when baseSha is provided", () => {
+    const result = cachedBuildTargetsFromTurboDryRun({
+      dryRun,
+      headSha: "abc123",
+      baseSha: "base123",
+      targetIds: ["@myorg/utils"],
+    });
+
+    expect(result.mode).toEqual("filtered");
+    expect(result.mode === "filtered" && result.baseSha).toEqual("base123");
+    expect(result.targetIds).toEqual(["@myorg/utils"]);
+  });
+
+  it("should throw InvalidBuildGraphInputError for malformed input", () => {
+    expect(() =>
+      cachedBuildTargetsFromTurboDryRun({
+        dryRun: { tasks: [{ taskId: "@myorg/web#build" }] },
+        headSha: "abc123",
+      })
+    ).toThrow(InvalidBuildGraphInputError);
+  });
+});
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import {
+  createCachedBuildTargets,
+  InvalidBuildGraphInputError,
+} from "./create_cached_build_targets";
+
+/**
+ * Subset of `turbo run <task> --dry=json` output that the adapter relies on
+ */
+export const TurboDryRunSchema = z.object({
+  tasks: z.array(
+    z.object({
+      // e.g., "@myorg/server#build"
+      taskId: z.string(),
+      // e.g., "@myorg/server"
+      package: z.string(),
+      // Package directory relative to the repo root, e.g., "apps/server"
+      directory: z.optional(z.string()),
+      dependencies: z.array(z.string()),
+      dependents: z.array(z.string()),
+    })
+  ),
+});
+
+export type TurboDryRun = z.infer<typeof TurboDryRunSchema>;
+
+/**
+ * Builds CachedBuildTargets from `turbo run --dry=json` output.
+ * Turbo task IDs are used as target IDs, package names as target names and package
+ * directories as package roots.
+ * Pass baseSha for a filtered payload (e.g. from a `--filter=...[base]` dry run).
+ */
+export function cachedBuildTargetsFromTurboDryRun({
+  dryRun,
+  headSha,
+  baseSha,
+  targetIds,
+}: {
+  dryRun: unknown;
+  headSha: string;
+  baseSha?: string;
+  targetIds?: string[];
+}) {
+  const parseResult = TurboDryRunSchema.safeParse(dryRun);
+  if (!parseResult.success) {
+    throw new InvalidBuildGraphInputError("turbo", parseResult.error);
+  }
+
+  return createCachedBuildTargets({
+    graph: parseResult.data.tasks.map((task) => ({
+      target: {
+        targetId: task.taskId,
+        targetName: task.package,
+        packageRoot: task.directory,
+      },
+      dependencies: task.dependencies,
+      dependents: task.dependents,
+    })),
+    headSha,
+    baseSha,
+    targetIds,
+  });
+}
@@ -2,7 +2,18 @@
  * Storage client interface - implement this for your storage backend (S3, GCS, etc.)
  */
 export type StorageClient = {
-  getObjectOrNull: (key: string) => Promise<{ data: Buffer | string } | null>;
+  // `signal` aborts when the caller times out or cancels; honoring it is optional
+  getObjectOrNull: (
+    key: string,
+    options?: { signal?: AbortSignal }
+  ) => Promise<{ data: Buffer | string } | null>;
+  // Optional - only required by writers such as putCachedTargetsForCommit
+  putObject?: (key: string, data: Buffer | string) => Promise<void>;
+  // Optional - lets caching clients memoize parsed objects per parse function
+  getParsedObjectOrNull?: <T>(
+    key: string,
+    parse: (data: Buffer | string, key: string) => T
+  ) => Promise<T | null>;
 };
 
 /**
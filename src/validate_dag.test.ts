@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import { buildHydratedDag } from "./build_hydrated_dag";
+import { type CachedBuildTargets, type Target } from "./schemas";
+import {
+  validateCachedBuildTargets,
+  validateHydratedDag,
+} from "./validate_dag";
+
+const createTarget = (
+  targetName: string,
+  dependencies: string[],
+  dependents: string[]
+): Target => ({
+  target: { targetId: `${targetName}#build`, targetName },
+  dependencies: dependencies.map((d) => `${d}#build`),
+  dependents: dependents.map((d) => `${d}#build`),
+});
+
+const createFullDag = (graph: Target[]): CachedBuildTargets => ({
+  version: 3,
+  mode: "full-dag",
+  headSha: "baseline123",
+  targetIds: [],
+  graph,
+});
+
+describe("validateCachedBuildTargets", () => {
+  [
+    {
+      desc: "should report a consistent graph as valid",
+      cachedTargets: createFullDag([
+        createTarget("@monologue/utils", [], ["@monologue/server"]),
+        createTarget("@monologue/server", ["@monologue/utils"], []),
+      ]),
+      expected: {
+        valid: true,
+        cycles: [],
+        danglingReferences: [],
+        oneSidedEdges: [],
+        conflictingTargetIds: [],
+      },
+    },
+    {
+      desc: "should report cycles with their members",
+      cachedTargets: createFullDag([
+        createTarget("@monologue/a", ["@monologue/c"], ["@monologue/b"]),
+        createTarget("@monologue/b", ["@monologue/a"], ["@monologue/c"]),
+        createTarget("@monologue/c", ["@monologue/b"], ["@monologue/a"]),
+        createTarget("@monologue/d", ["@monologue/d"], ["@monologue/d"]),
+      ]),
+      expected: {
+        valid: false,
+        cycles: [
+          ["@monologue/a#build", "@monologue/b#build", "@monologue/c#build"],
+          ["@monologue/d#build"],
+        ],
+        danglingReferences: [],
+        oneSidedEdges: [],
+        conflictingTargetIds: [],
+      },
+    },
+    {
+      desc: "should report dangling references in full-dag payloads",
+      cachedTargets: createFullDag([
+        createTarget("@monologue/server", ["@monologue/deleted"], []),
+      ]),
+      expected: {
+        valid: false,
+        cycles: [],
+        danglingReferences: [
+          {
+            targetId: "@monologue/server#build",
+            referencedTargetId: "@monologue/deleted#build",
+            edgeList: "dependencies",
+          },
+        ],
+        oneSidedEdges: [],
+        conflictingTargetIds: [],
+      },
+    },
+    {
+      desc: "should not report references outside filtered payloads as dangling",
+      cachedTargets: {
+        version: 3,
+        mode: "filtered",
+        baseSha: "base123",
+        headSha: "sha1",
+        targetIds: ["@monologue/server"],
+        graph: [createTarget("@monologue/server", ["@monologue/utils"], [])],
+      } satisfies CachedBuildTargets,
+      expected: {
+        valid: true,
+        cycles: [],
+        danglingReferences: [],
+        oneSidedEdges: [],
+        conflictingTargetIds: [],
+      },
+    },
+    {
+      desc: "should report one-sided edges",
+      cachedTargets: createFullDag([
+        createTarget("@monologue/utils", [], ["@monologue/server"]),
+        createTarget("@monologue/server", [], []),
+        createTarget("@monologue/api", ["@monologue/utils"], []),
+      ]),
+      expected: {
+        valid: false,
+        cycles: [],
+        danglingReferences: [],
+        oneSidedEdges: [
+          {
+            dependencyId: "@monologue/utils#build",
+            dependentId: "@monologue/api#build",
+            declaredOn: "dependent",
+          },
+          {
+            dependencyId: "@monologue/utils#build",
+            dependentId: "@monologue/server#build",
+            declaredOn: "dependency",
+          },
+        ],
+        conflictingTargetIds: [],
+      },
+    },
+    {
+      desc: "should report duplicate target IDs with conflicting names",
+      cachedTargets: createFullDag([
+        createTarget("@monologue/server", [], []),
+        {
+          target: {
+            targetId: "@monologue/server#build",
+            targetName: "@monologue/renamed-server",
+          },
+          dependencies: [],
+          dependents: [],
+        },
+      ]),
+      expected: {
+        valid: false,
+        cycles: [],
+        danglingReferences: [],
+        oneSidedEdges: [],
+        conflictingTargetIds: [
+          {
+            targetId: "@monologue/server#build",
+            targetNames: ["@monologue/renamed-server", "@monologue/server"],
+          },
+        ],
+      },
+    },
+  ].forEach((tc) => {
+    it(tc.desc, () => {
+      expect(
+        validateCachedBuildTargets({ cachedTargets: tc.cachedTargets })
+      ).toEqual(tc.expected);
+    });
+  });
+});
+
+describe("validateHydratedDag", () => {
+  it("should report cycles introduced by an overlay", () => {
+    const hydratedDag = buildHydratedDag({
+      baselineTargets: createFullDag([
+        createTarget("@monologue/utils", [], ["@monologue/server"]),
+        createTarget("@monologue/server", ["@monologue/utils"], []),
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "baseline123",
+          headSha: "sha1",
+          targetIds: ["@monologue/utils"],
+          graph: [
+            createTarget(
+              "@monologue/utils",
+              ["@monologue/server"],
+              ["@monologue/server"]
+            ),
+          ],
+        },
+      ],
+    });
+
+    const report = validateHydratedDag({ hydratedDag });
+
+    expect(report.valid).toBe(false);
+    expect(report.cycles).toEqual([
+      ["@monologue/server#build", "@monologue/utils#build"],
+    ]);
+  });
+
+  it("should report overlay edges to unknown targets as dangling", () => {
+    const hydratedDag = buildHydratedDag({
+      baselineTargets: createFullDag([
+        createTarget("@monologue/server", [], []),
+      ]),
+      additionalTargets: [
+        {
+          version: 3,
+          mode: "filtered",
+          baseSha: "baseline123",
+          headSha: "sha1",
+          targetIds: ["@monologue/server"],
+          graph: [createTarget("@monologue/server", ["@monologue/typo"], [])],
+        },
+      ],
+    });
+
+    const report = validateHydratedDag({ hydratedDag });
+
+    expect(report.danglingReferences).toEqual([
+      {
+        targetId: "@monologue/server#build",
+        referencedTargetId: "@monologue/typo#build",
+        edgeList: "dependencies",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,300 @@
+import { type HydratedDag } from "./build_hydrated_dag";
+import { type CachedBuildTargets } from "./schemas";
+
+export type DanglingReference = {
+  // Target that declares the edge
+  targetId: string;
+  // Target ID referenced by the edge that never appears as a node
+  referencedTargetId: string;
+  // Which edge list the reference was found in
+  edgeList: "dependencies" | "dependents";
+};
+
+export type OneSidedEdge = {
+  dependencyId: string;
+  dependentId: string;
+  // Side of the edge that declares it; the other side is missing the matching entry
+  declaredOn: "dependency" | "dependent";
+};
+
+export type ConflictingTargetId = {
+  targetId: string;
+  targetNames: string[];
+};
+
+export type DagValidationReport = {
+  valid: boolean;
+  // Each cycle is a strongly connected component, members sorted
+  cycles: string[][];
+  danglingReferences: DanglingReference[];
+  oneSidedEdges: OneSidedEdge[];
+  // Target IDs declared more than once with different names
+  conflictingTargetIds: ConflictingTargetId[];
+};
+
+type AdjacencyLists = {
+  nodes: Set<string>;
+  dependencies: Map<string, Set<string>>;
+  dependents: Map<string, Set<string>>;
+};
+
+/**
+ * Finds strongly connected components with more than one member (or a self-loop).
+ * Iterative Tarjan's algorithm over dependency → dependent edges, so deep graphs
+ * don't overflow the stack.
+ */
+function findCycles({ nodes, dependencies, dependents }: AdjacencyLists) {
+  // Union of both edge lists, restricted to known nodes
+  const successors = new Map<string, Set<string>>();
+  for (const node of nodes) {
+    successors.set(node, new Set());
+  }
+  for (const node of nodes) {
+    for (const dependentId of dependents.get(node) ?? []) {
+      if (nodes.has(dependentId)) {
+        successors.get(node)!.add(dependentId);
+      }
+    }
+    for (const dependencyId of dependencies.get(node) ?? []) {
+      if (nodes.has(dependencyId)) {
+        successors.get(dependencyId)!.add(node);
+      }
+    }
+  }
+
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of nodes) {
+    if (indices.has(root)) {
+      continue;
+    }
+
+    const callStack: { node: string; iterator: Iterator<string> }[] = [];
+    const visit = (node: string) => {
+      indices.set(node, nextIndex);
+      lowLinks.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+      callStack.push({ node, iterator: successors.get(node)!.values() });
+    };
+    visit(root);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const next = frame.iterator.next();
+
+      if (!next.done) {
+        const successor = next.value;
+        if (!indices.has(successor)) {
+          visit(successor);
+        } else if (onStack.has(successor)) {
+          lowLinks.set(
+            frame.node,
+            Math.min(lowLinks.get(frame.node)!, indices.get(successor)!)
+          );
+        }
+        continue;
+      }
+
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].node;
+        lowLinks.set(
+          parent,
+          Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!)
+        );
+      }
+
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (
+          component.length > 1 ||
+          successors.get(frame.node)!.has(frame.node)
+        ) {
+          cycles.push(component.sort());
+        }
+      }
+    }
+  }
+
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+function findDanglingReferences({
+  nodes,
+  dependencies,
+  dependents,
+}: AdjacencyLists) {
+  const danglingReferences: DanglingReference[] = [];
+  for (const node of [...nodes].sort()) {
+    for (const dependencyId of dependencies.get(node) ?? []) {
+      if (!nodes.has(dependencyId)) {
+        danglingReferences.push({
+          targetId: node,
+          referencedTargetId: dependencyId,
+          edgeList: "dependencies",
+        });
+      }
+    }
+    for (const dependentId of dependents.get(node) ?? []) {
+      if (!nodes.has(dependentId)) {
+        danglingReferences.push({
+          targetId: node,
+          referencedTargetId: dependentId,
+          edgeList: "dependents",
+        });
+      }
+    }
+  }
+  return danglingReferences;
+}
+
+function findOneSidedEdges({
+  nodes,
+  dependencies,
+  dependents,
+}: AdjacencyLists) {
+  const oneSidedEdges: OneSidedEdge[] = [];
+  for (const node of [...nodes].sort()) {
+    for (const dependencyId of dependencies.get(node) ?? []) {
+      if (nodes.has(dependencyId) && !dependents.get(dependencyId)?.has(node)) {
+        oneSidedEdges.push({
+          dependencyId,
+          dependentId: node,
+          declaredOn: "dependent",
+        });
+      }
+    }
+    for (const dependentId of dependents.get(node) ?? []) {
+      if (nodes.has(dependentId) && !dependencies.get(dependentId)?.has(node)) {
+        oneSidedEdges.push({
+          dependencyId: node,
+          dependentId,
+          declaredOn: "dependency",
+        });
+      }
+    }
+  }
+  return oneSidedEdges;
+}
+
+function buildReport({
+  adjacencyLists,
+  conflictingTargetIds,
+  checkDanglingReferences,
+}: {
+  adjacencyLists: AdjacencyLists;
+  conflictingTargetIds: ConflictingTargetId[];
+  checkDanglingReferences: boolean;
+}): DagValidationReport {
+  const cycles = findCycles(adjacencyLists);
+  const danglingReferences = checkDanglingReferences
+    ? findDanglingReferences(adjacencyLists)
+    : [];
+  const oneSidedEdges = findOneSidedEdges(adjacencyLists);
+
+  return {
+    valid:
+      cycles.length === 0 &&
+      danglingReferences.length === 0 &&
+      oneSidedEdges.length === 0 &&
+      conflictingTargetIds.length === 0,
+    cycles,
+    danglingReferences,
+    oneSidedEdges,
+    conflictingTargetIds,
+  };
+}
+
+/**
+ * Validates a hydrated DAG (baseline plus overlays).
+ * Reports cycles, edges to target IDs without a name mapping, and edges present in only
+ * one of the dependents/dependencies maps. Hydrated DAGs are keyed by target ID, so
+ * conflicting duplicates have already been collapsed and are never reported here.
+ */
+export function validateHydratedDag({
+  hydratedDag,
+}: {
+  hydratedDag: HydratedDag;
+}): DagValidationReport {
+  return buildReport({
+    adjacencyLists: {
+      nodes: new Set(hydratedDag.targetIdToName.keys()),
+      dependencies: hydratedDag.targetIdToDependencyIds,
+      dependents: hydratedDag.targetIdToDependentIds,
+    },
+    conflictingTargetIds: [],
+    checkDanglingReferences: true,
+  });
+}
+
+/**
+ * Validates a single cached build targets payload.
+ * Filtered payloads only contain affected targets, so references to targets outside the
+ * payload are expected (they resolve against the baseline) and are not reported as dangling.
+ */
+export function validateCachedBuildTargets({
+  cachedTargets,
+}: {
+  cachedTargets: CachedBuildTargets;
+}): DagValidationReport {
+  const nodes = new Set<string>();
+  const dependencies = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+  const targetIdToNames = new Map<string, Set<string>>();
+
+  for (const node of cachedTargets.graph) {
+    const { targetId, targetName } = node.target;
+    nodes.add(targetId);
+
+    if (!targetIdToNames.has(targetId)) {
+      targetIdToNames.set(targetId, new Set());
+    }
+    targetIdToNames.get(targetId)!.add(targetName ?? `ID:${targetId}`);
+
+    if (!dependencies.has(targetId)) {
+      dependencies.set(targetId, new Set());
+    }
+    for (const dependencyId of node.dependencies) {
+      dependencies.get(targetId)!.add(dependencyId);
+    }
+
+    if (!dependents.has(targetId)) {
+      dependents.set(targetId, new Set());
+    }
+    for (const dependentId of node.dependents) {
+      dependents.get(targetId)!.add(dependentId);
+    }
+  }
+
+  const conflictingTargetIds: ConflictingTargetId[] = [];
+  for (const [targetId, targetNames] of targetIdToNames) {
+    if (targetNames.size > 1) {
+      conflictingTargetIds.push({
+        targetId,
+        targetNames: [...targetNames].sort(),
+      });
+    }
+  }
+
+  return buildReport({
+    adjacencyLists: { nodes, dependencies, dependents },
+    conflictingTargetIds: conflictingTargetIds.sort((a, b) =>
+      a.targetId.localeCompare(b.targetId)
+    ),
+    checkDanglingReferences: cachedTargets.mode === "full-dag",
+  });
+}
@@ -0,0 +1,118 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  cachedBuildTargetsFromWorkspace,
+  readWorkspace,
+} from "./workspace_adapter";
+
+const fixturesDir = path.join(__dirname, "fixtures");
+
+describe("readWorkspace", () => {
+  it("should read globs from pnpm-workspace.yaml", async () => {
+    const result = await readWorkspace({
+      rootDir: path.join(fixturesDir, "pnpm_workspace"),
+    });
+
+    expect(result.workspaceGlobs).toEqual([
+      "packages/*",
+      "apps/*",
+      "!apps/legacy",
+    ]);
+    expect(Object.keys(result.packageJsons).sort()).toEqual([
+      "apps/web",
+      "packages/ui",
+      "packages/utils",
+    ]);
+  });
+
+  it("should read globs from package.json workspaces", async () => {
+    const result = await readWorkspace({
+      rootDir: path.join(fixturesDir, "npm_workspace"),
+    });
+
+    expect(result.workspaceGlobs).toEqual(["packages/*"]);
+    expect(Object.keys(result.packageJsons).sort()).toEqual([
+      "packages/server",
+      "packages/utils",
+    ]);
+  });
+});
+
+describe("cachedBuildTargetsFromWorkspace", () => {
+  it("should build targets from workspace dependencies of any kind", async () => {
+    const workspace = await readWorkspace({
+      rootDir: path.join(fixturesDir, "pnpm_workspace"),
+    });
+
+    const result = cachedBuildTargetsFromWorkspace({
+      ...workspace,
+      headSha: "abc123",
+    });
+
+    expect(result.graph).toEqual([
+      {
+        target: {
+          targetId: "@myorg/ui#build",
+          targetName: "@myorg/ui",
+          packageRoot: "packages/ui",
+        },
+        dependencies: ["@myorg/utils#build"],
+        dependents: ["@myorg/web#build"],
+        dependencyKinds: { "@myorg/utils#build": "runtime" },
+      },
+      {
+        target: {
+          targetId: "@myorg/utils#build",
+          targetName: "@myorg/utils",
+          packageRoot: "packages/utils",
+        },
+        dependencies: [],
+        dependents: ["@myorg/ui#build", "@myorg/web#build"],
+        dependencyKinds: {},
+      },
+      {
+        target: {
+          targetId: "@myorg/web#build",
+          targetName: "@myorg/web",
+          packageRoot: "apps/web",
+        },
+        dependencies: ["@myorg/ui#build", "@myorg/utils#build"],
+        dependents: [],
+        dependencyKinds: {
+          "@myorg/ui#build": "runtime",
+          "@myorg/utils#build": "dev",
+        },
+      },
+    ]);
+  });
+
+  it("should only include packages matching the workspace globs", () => {
+    const result = cachedBuildTargetsFromWorkspace({
+      packageJsons: {
+        "packages/utils": { name: "@myorg/utils" },
+        "tools/scripts": {
+          name: "@myorg/scripts",
+          dependencies: { "@myorg/utils": "1.0.0" },
+        },
+      },
+      workspaceGlobs: ["packages/*"],
+      headSha: "abc123",
+      baseSha: "base123",
+    });
+
+    expect(result.mode).toEqual("filtered");
+    expect(result.targetIds).toEqual(["@myorg/utils"]);
+    expect(result.graph).toEqual([
+      {
+        target: {
+          targetId: "@myorg/utils#build",
+          targetName: "@myorg/utils",
+          packageRoot: "packages/utils",
+        },
+        dependencies: [],
+        dependents: [],
+        dependencyKinds: {},
+      },
+    ]);
+  });
+});
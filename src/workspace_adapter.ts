@@ -0,0 +1,223 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { z } from "zod";
+import {
+  createCachedBuildTargets,
+  InvalidBuildGraphInputError,
+} from "./create_cached_build_targets";
+import { matchesGlobs } from "./glob";
+import { type EdgeKind } from "./schemas";
+
+/**
+ * Subset of package.json that the workspace adapter relies on
+ */
+export const WorkspacePackageJsonSchema = z.object({
+  name: z.optional(z.string()),
+  dependencies: z.optional(z.record(z.string())),
+  devDependencies: z.optional(z.record(z.string())),
+  peerDependencies: z.optional(z.record(z.string())),
+  optionalDependencies: z.optional(z.record(z.string())),
+});
+
+export type WorkspacePackageJson = z.infer<typeof WorkspacePackageJsonSchema>;
+
+// Edge kind per dependency field; runtime wins when a package is listed in several fields
+const DEPENDENCY_FIELD_KINDS = [
+  ["dependencies", "runtime"],
+  ["devDependencies", "dev"],
+  ["peerDependencies", "runtime"],
+  ["optionalDependencies", "runtime"],
+] as const satisfies [keyof WorkspacePackageJson, EdgeKind][];
+
+/**
+ * Builds CachedBuildTargets from a pnpm/npm workspace.
+ * packageJsons maps each package directory (relative to the workspace root, `/`-separated)
+ * to its parsed package.json; only directories matching workspaceGlobs are included.
+ * Each named package becomes a `<name>#<task>` target (task defaults to "build"), with an
+ * edge for every dependency on another workspace package, whatever its dependency field.
+ * Edges from devDependencies have the "dev" kind and all others "runtime".
+ */
+export function cachedBuildTargetsFromWorkspace({
+  packageJsons,
+  workspaceGlobs,
+  headSha,
+  baseSha,
+  targetIds,
+  task = "build",
+}: {
+  packageJsons: Record<string, unknown>;
+  workspaceGlobs: string[];
+  headSha: string;
+  baseSha?: string;
+  targetIds?: string[];
+  task?: string;
+}) {
+  const packages: (WorkspacePackageJson & { directory: string })[] = [];
+  for (const [directory, packageJson] of Object.entries(packageJsons)) {
+    if (!matchesGlobs(directory, workspaceGlobs)) {
+      continue;
+    }
+    const parseResult = WorkspacePackageJsonSchema.safeParse(packageJson);
+    if (!parseResult.success) {
+      throw new InvalidBuildGraphInputError(
+        `workspace (${directory}/package.json)`,
+        parseResult.error
+      );
+    }
+    if (parseResult.data.name) {
+      packages.push({ ...parseResult.data, directory });
+    }
+  }
+
+  const packageNames = new Set(packages.map((pkg) => pkg.name!));
+
+  return createCachedBuildTargets({
+    graph: packages.map((pkg) => {
+      const dependencyKinds: Record<string, EdgeKind> = {};
+      for (const [field, kind] of DEPENDENCY_FIELD_KINDS) {
+        for (const name of Object.keys(pkg[field] ?? {})) {
+          const dependencyId = `${name}#${task}`;
+          if (
+            packageNames.has(name) &&
+            dependencyKinds[dependencyId] !== "runtime"
+          ) {
+            dependencyKinds[dependencyId] = kind;
+          }
+        }
+      }
+      return {
+        target: {
+          targetId: `${pkg.name}#${task}`,
+          targetName: pkg.name,
+          packageRoot: pkg.directory,
+        },
+        dependencies: Object.keys(dependencyKinds),
+        dependencyKinds,
+      };
+    }),
+    headSha,
+    baseSha,
+    targetIds,
+  });
+}
+
+/**
+ * Reads `packages:` entries from pnpm-workspace.yaml.
+ * Only handles the block-list form pnpm documents; other keys are ignored.
+ */
+function parsePnpmWorkspaceGlobs(yaml: string) {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split(/\r?\n/)) {
+    const trimmed = line.replace(/#.*$/, "").trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (!/^\s/.test(line)) {
+      inPackages = trimmed === "packages:";
+      continue;
+    }
+    if (inPackages && trimmed.startsWith("-")) {
+      globs.push(
+        trimmed
+          .slice(1)
+          .trim()
+          .replace(/^["']|["']$/g, "")
+      );
+    }
+  }
+  return globs;
+}
+
+async function readJsonOrNull(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+async function findPackageJsonDirectories(
+  rootDir: string,
+  directory = ""
+): Promise<string[]> {
+  const entries = await fs.readdir(path.join(rootDir, directory), {
+    withFileTypes: true,
+  });
+  const directories: string[] = [];
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name === "package.json" && directory) {
+      directories.push(directory);
+    }
+    if (
+      entry.isDirectory() &&
+      entry.name !== "node_modules" &&
+      !entry.name.startsWith(".")
+    ) {
+      directories.push(
+        ...(await findPackageJsonDirectories(
+          rootDir,
+          directory ? `${directory}/${entry.name}` : entry.name
+        ))
+      );
+    }
+  }
+  return directories;
+}
+
+/**
+ * Reads a pnpm/npm workspace from disk as input for cachedBuildTargetsFromWorkspace.
+ * Workspace globs come from pnpm-workspace.yaml if present, otherwise from the root
+ * package.json `workspaces` field (array or `{ packages }` form).
+ */
+export async function readWorkspace({ rootDir }: { rootDir: string }) {
+  let workspaceGlobs: string[];
+  try {
+    workspaceGlobs = parsePnpmWorkspaceGlobs(
+      await fs.readFile(path.join(rootDir, "pnpm-workspace.yaml"), "utf-8")
+    );
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw err;
+    }
+    const rootPackageJson = z
+      .object({
+        workspaces: z.optional(
+          z.union([
+            z.array(z.string()),
+            z.object({ packages: z.array(z.string()) }),
+          ])
+        ),
+      })
+      .safeParse(await readJsonOrNull(path.join(rootDir, "package.json")));
+    if (!rootPackageJson.success) {
+      throw new InvalidBuildGraphInputError(
+        "workspace (package.json)",
+        rootPackageJson.error
+      );
+    }
+    const { workspaces } = rootPackageJson.data;
+    workspaceGlobs = Array.isArray(workspaces)
+      ? workspaces
+      : (workspaces?.packages ?? []);
+  }
+
+  // Workspace globs are written relative to the root, sometimes with a leading "./"
+  workspaceGlobs = workspaceGlobs.map((glob) =>
+    glob.replace(/^(!?)\.\//, "$1").replace(/\/$/, "")
+  );
+
+  const packageJsons: Record<string, unknown> = {};
+  for (const directory of await findPackageJsonDirectories(rootDir)) {
+    if (matchesGlobs(directory, workspaceGlobs)) {
+      packageJsons[directory] = await readJsonOrNull(
+        path.join(rootDir, directory, "package.json")
+      );
+    }
+  }
+
+  return { workspaceGlobs, packageJsons };
+}